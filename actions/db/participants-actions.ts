@@ -0,0 +1,66 @@
+"use server"
+
+import { db } from "@/db/db"
+import {
+  InsertParticipant,
+  SelectParticipant,
+  participantsTable
+} from "@/db/schema"
+import { ActionState } from "@/types"
+import { eq } from "drizzle-orm"
+
+export async function createParticipantsAction(
+  participants: InsertParticipant[]
+): Promise<ActionState<SelectParticipant[]>> {
+  try {
+    const newParticipants = await db
+      .insert(participantsTable)
+      .values(participants)
+      .returning()
+    return {
+      isSuccess: true,
+      message: "Participants created successfully",
+      data: newParticipants
+    }
+  } catch (error) {
+    console.error("Error creating participants:", error)
+    return { isSuccess: false, message: "Failed to create participants" }
+  }
+}
+
+export async function getParticipantsBySearchAction(
+  searchId: string
+): Promise<ActionState<SelectParticipant[]>> {
+  try {
+    const participants = await db.query.participants.findMany({
+      where: eq(participantsTable.searchId, searchId),
+      orderBy: (participants, { asc }) => [asc(participants.position)]
+    })
+    return {
+      isSuccess: true,
+      message: "Participants retrieved successfully",
+      data: participants
+    }
+  } catch (error) {
+    console.error("Error getting participants:", error)
+    return { isSuccess: false, message: "Failed to get participants" }
+  }
+}
+
+export async function deleteParticipantsBySearchAction(
+  searchId: string
+): Promise<ActionState<void>> {
+  try {
+    await db
+      .delete(participantsTable)
+      .where(eq(participantsTable.searchId, searchId))
+    return {
+      isSuccess: true,
+      message: "Participants deleted successfully",
+      data: undefined
+    }
+  } catch (error) {
+    console.error("Error deleting participants:", error)
+    return { isSuccess: false, message: "Failed to delete participants" }
+  }
+}
@@ -1,84 +1,184 @@
 "use server"
 
-import { ActionState } from "@/types"
-import { PoiResponse } from "@/types"
+import {
+  ActionState,
+  CacheStats,
+  CachedServiceName,
+  DataQuality,
+  Fetcher,
+  GeocodingMatch,
+  GeocodingResult,
+  LookupOptions,
+  MeetingObjective,
+  MeetingPointResponse,
+  MidpointResponse,
+  Origin,
+  ReverseGeocodingResult,
+  RouteAvoidance,
+  RouteMidpointResponse,
+  RouteResult,
+  ServiceFetchers,
+  SnappedMidpoint,
+  TravelMode,
+  TravelTimeMatrix
+} from "@/types"
+import { PoiResponse, PoiSearchResponse, PoiType } from "@/types"
+import {
+  LatLng,
+  calculateDistance,
+  distanceBetween,
+  interpolateAlongLine
+} from "@/lib/geo"
+import {
+  applyWeights,
+  findEqualTimeFraction,
+  getMinimaxCenter,
+  getRouteMidpoint,
+  pickBestCandidate,
+  sampleAlongLine,
+  sampleGrid
+} from "@/lib/midpoint"
+import {
+  DEFAULT_TRAVEL_MODE,
+  FALLBACK_SPEEDS,
+  getOriginTravelModes,
+  getSlowestTravelMode
+} from "@/lib/travel-modes"
+import { getRoutingProvider } from "@/lib/routing"
+import { MAX_ROUTES } from "@/lib/routes"
+import { getOriginWeights, getTravelShares } from "@/lib/participants"
+import { DEFAULT_MEETING_OBJECTIVE } from "@/lib/objectives"
+import { CORRIDOR_WIDTH } from "@/lib/corridor"
+import {
+  DEFAULT_POI_TYPES,
+  getLocationIqTags,
+  getOsmTagFilters,
+  getPoiType
+} from "@/lib/poi-categories"
+import {
+  MIN_POI_RESULTS,
+  POI_SEARCH_RADIUS,
+  getNextPoiRadius,
+  limitCorridorPoiResults,
+  limitPoiResults
+} from "@/lib/poi-search"
+import {
+  MEETABLE_PLACE_TYPES,
+  MEETABLE_VENUE_TYPES,
+  MIN_MEETABLE_VENUES,
+  PlaceCentre,
+  countVenuesNear,
+  findMeetablePlaces,
+  getSnapTolerance
+} from "@/lib/snapping"
+import { combineQuality } from "@/lib/data-quality"
+import { formatCoordinates, parseLocationInput } from "@/lib/location-input"
+import {
+  MAX_GEOCODER_SUGGESTIONS,
+  MIN_AUTOCOMPLETE_LENGTH
+} from "@/lib/autocomplete"
+import {
+  autocompleteGeocoders,
+  getAutocompleteProviders,
+  getGeocodingProviders,
+  reverseAddressGeocoders,
+  reverseGeocoders,
+  searchGeocoders
+} from "@/lib/geocoding"
+import { formatPlaceName } from "@/lib/geocoding/labels"
+import { languageParam } from "@/lib/geocoding/nominatim-provider"
+import {
+  MAX_GEOCODING_CANDIDATES,
+  getDistinctCandidates,
+  isAmbiguous
+} from "@/lib/geocoding/candidates"
+import { createProviderCache } from "@/lib/cache"
+import { createPostgresCacheStore } from "@/lib/cache/postgres-store"
+import {
+  DEFAULT_AUTOCOMPLETE_RATE_LIMITS,
+  DEFAULT_HOST_RATE_LIMITS,
+  DEFAULT_RATE_LIMIT,
+  createHostRateLimiter,
+  getAbortError,
+  parseRateLimits
+} from "@/lib/rate-limiter"
+import { createRequestCoalescer } from "@/lib/request-coalescer"
+import { getRequestLocale } from "@/lib/i18n/server"
 
-// Simple rate limiting implementation
-let lastRequestTime = 0;
-const MIN_REQUEST_INTERVAL = 1000; // Increased to 1000ms (1 request per second)
+// Requests are rate limited per upstream host. RATE_LIMITS overrides the
+// limits for particular hosts, with "*" setting the limit for any other host.
+const configuredRateLimits = parseRateLimits(process.env.RATE_LIMITS)
+const rateLimiter = createHostRateLimiter({
+  limits: { ...DEFAULT_HOST_RATE_LIMITS, ...configuredRateLimits },
+  defaultLimit: configuredRateLimits["*"] || DEFAULT_RATE_LIMIT
+})
 
-// Simple in-memory cache
-const apiCache: Record<string, { data: any, timestamp: number }> = {};
-const CACHE_TTL = 24 * 60 * 60 * 1000; // 24 hours in milliseconds
+// Identical requests already in flight share a single upstream request
+const inFlightRequests = createRequestCoalescer()
 
-// Helper function to enforce rate limiting with retry logic
-async function rateLimitedFetch(url: string, maxRetries = 3): Promise<Response> {
-  // Check cache first
-  if (apiCache[url] && (Date.now() - apiCache[url].timestamp) < CACHE_TTL) {
-    // Return cached response as a mock Response object
-    console.log(`Using cached response for: ${url.substring(0, 50)}...`);
-    return {
-      ok: true,
-      json: async () => apiCache[url].data,
-      text: async () => JSON.stringify(apiCache[url].data),
-      status: 200,
-      statusText: 'OK (Cached)'
-    } as Response;
-  }
+const MAX_RETRIES = 3;
+
+// Server actions are never told that the user has navigated away, so each
+// one gives up on its upstream requests, including any wait in the rate
+// limiter queues, once its answer would come too late to be shown
+const ACTION_TIMEOUT = 30000
+
+// The language is asked for in each URL rather than here, so responses
+// cached or shared by URL are never in someone else's language
+const REQUEST_HEADERS = {
+  Accept: "application/json",
+  "User-Agent": "Meet-Me-Halfway/1.0"
+}
+
+// Waits before a retry, stopping early if the request is abandoned
+function waitForRetry(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(getAbortError(signal));
 
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(getAbortError(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Helper function to enforce rate limiting with retry logic
+async function fetchWithRetries(url: string, signal: AbortSignal): Promise<Response> {
   let retries = 0;
   let lastError: Error | null = null;
 
-  while (retries <= maxRetries) {
+  while (retries <= MAX_RETRIES) {
     try {
-      const now = Date.now();
-      const timeSinceLastRequest = now - lastRequestTime;
-      
-      if (timeSinceLastRequest < MIN_REQUEST_INTERVAL) {
-        // Wait for the remaining time to respect rate limit
-        const waitTime = MIN_REQUEST_INTERVAL - timeSinceLastRequest;
-        console.log(`Rate limiting: waiting ${waitTime}ms before next request`);
-        await new Promise(resolve => setTimeout(resolve, waitTime));
-      }
-      
-      lastRequestTime = Date.now();
+      // Wait for this host's rate limit; other hosts are not held up
+      await rateLimiter.acquire(url, signal);
+
       console.log(`Fetching: ${url.substring(0, 50)}...`);
-      const response = await fetch(url, {
-        headers: {
-          'Accept': 'application/json',
-          'Accept-Language': 'en-US,en;q=0.9',
-          'User-Agent': 'Meet-Me-Halfway/1.0'
-        }
-      });
+      const response = await fetch(url, { headers: REQUEST_HEADERS, signal });
       
       if (response.status === 429) { // Too Many Requests
         const retryAfter = response.headers.get('Retry-After');
         const waitTime = retryAfter ? parseInt(retryAfter) * 1000 : (1000 * Math.pow(2, retries));
-        console.log(`Rate limited (429). Retrying after ${waitTime}ms. Retry ${retries + 1}/${maxRetries}`);
-        await new Promise(resolve => setTimeout(resolve, waitTime));
+        console.log(`Rate limited (429). Retrying after ${waitTime}ms. Retry ${retries + 1}/${MAX_RETRIES}`);
+        await waitForRetry(waitTime, signal);
         retries++;
         continue;
       }
       
-      // Cache the successful response
-      if (response.ok) {
-        const clonedResponse = response.clone();
-        try {
-          const data = await clonedResponse.json();
-          apiCache[url] = { data, timestamp: Date.now() };
-          console.log(`Cached response for: ${url.substring(0, 50)}...`);
-        } catch (e) {
-          console.error('Error caching response:', e);
-        }
-      }
-      
       return response;
     } catch (error) {
+      // An abandoned request is not retried
+      if (signal.aborted) throw error;
+
       lastError = error as Error;
       const waitTime = 1000 * Math.pow(2, retries);
-      console.error(`Error fetching (retry ${retries + 1}/${maxRetries}):`, error);
+      console.error(`Error fetching (retry ${retries + 1}/${MAX_RETRIES}):`, error);
       console.log(`Retrying after ${waitTime}ms`);
-      await new Promise(resolve => setTimeout(resolve, waitTime));
+      await waitForRetry(waitTime, signal);
       retries++;
     }
   }
@@ -86,190 +186,503 @@ async function rateLimitedFetch(url: string, maxRetries = 3): Promise<Response>
   throw lastError || new Error('Maximum retries exceeded');
 }
 
-interface GeocodingResult {
-  lat: string
-  lon: string
-  display_name: string
+const rateLimitedFetch: Fetcher = (url, { signal } = {}) =>
+  inFlightRequests.run(url, sharedSignal => fetchWithRetries(url, sharedSignal), signal)
+
+// Responses are cached per service in memory and in the provider_cache
+// table, so only cache misses wait on the rate limiter above
+const providerCache = createProviderCache({ store: createPostgresCacheStore() })
+const serviceFetchers: ServiceFetchers = service =>
+  providerCache.wrap(service, rateLimitedFetch)
+
+// Routing goes through the configured provider (OSRM unless ROUTING_PROVIDER
+// says otherwise), sharing the rate limiting and cache above
+const routingProvider = getRoutingProvider(serviceFetchers)
+
+// Geocoding tries each configured provider in turn (see lib/geocoding)
+const geocodingProviders = getGeocodingProviders(serviceFetchers)
+
+// Suggestions while typing have their own limits per host, so they never
+// hold up geocoding on submit; AUTOCOMPLETE_RATE_LIMITS overrides them the
+// way RATE_LIMITS does. A suggestion that would wait longer than
+// AUTOCOMPLETE_MAX_WAIT is dropped rather than retried, as the user will
+// have typed on by then.
+const configuredAutocompleteRateLimits = parseRateLimits(
+  process.env.AUTOCOMPLETE_RATE_LIMITS
+)
+const autocompleteRateLimiter = createHostRateLimiter({
+  limits: {
+    ...DEFAULT_AUTOCOMPLETE_RATE_LIMITS,
+    ...configuredAutocompleteRateLimits
+  },
+  defaultLimit: configuredAutocompleteRateLimits["*"] || DEFAULT_RATE_LIMIT
+})
+const AUTOCOMPLETE_MAX_WAIT = 2000
+
+const autocompleteFetch: Fetcher = async (url, { signal } = {}) => {
+  const timeout = AbortSignal.timeout(AUTOCOMPLETE_MAX_WAIT)
+  await autocompleteRateLimiter.acquire(
+    url,
+    signal ? AbortSignal.any([signal, timeout]) : timeout
+  )
+
+  return fetch(url, { headers: REQUEST_HEADERS, signal })
 }
 
-// Add this after the geocodeLocationAction function
-async function fallbackGeocodeAction(
-  address: string
-): Promise<ActionState<GeocodingResult>> {
+const autocompleteProviders = getAutocompleteProviders(service =>
+  providerCache.wrap(service, autocompleteFetch)
+)
+
+// Cache hits and misses per service since this server instance started
+export async function getProviderCacheStatsAction(): Promise<
+  ActionState<Partial<Record<CachedServiceName, CacheStats>>>
+> {
+  return {
+    isSuccess: true,
+    message: "Cache stats retrieved successfully",
+    data: providerCache.getStats()
+  }
+}
+
+// Names a position with the address found there, or with its coordinates
+// when no provider has one
+async function labelPosition(
+  position: LatLng,
+  options: LookupOptions
+): Promise<GeocodingResult> {
+  let label = formatCoordinates(position)
+
   try {
-    console.log('Using fallback geocoding service (Nominatim)');
-    // Using OpenStreetMap Nominatim as a fallback
-    const url = `https://nominatim.openstreetmap.org/search?q=${encodeURIComponent(
-      address
-    )}&format=json&limit=1`;
+    const { address } = await reverseAddressGeocoders(
+      geocodingProviders,
+      position.lat,
+      position.lng,
+      options
+    )
+    if (address) label = address
+  } catch (error) {
+    console.warn("Could not find an address for coordinates:", error)
+  }
+
+  return {
+    lat: position.lat.toString(),
+    lon: position.lng.toString(),
+    display_name: label
+  }
+}
 
-    const response = await fetch(url, {
-      headers: {
-        'User-Agent': 'Meet-Me-Halfway/1.0',
-        'Accept-Language': 'en-US,en;q=0.9'
+// The best few places matching an address, with repeat matches for the same
+// place left out, and whether the caller should ask which one was meant
+export async function geocodeLocationAction(
+  address: string,
+  signal: AbortSignal = AbortSignal.timeout(ACTION_TIMEOUT)
+): Promise<ActionState<GeocodingMatch>> {
+  try {
+    if (!address.trim()) {
+      return {
+        isSuccess: false,
+        message: "Please enter an address"
       }
-    });
+    }
 
-    if (!response.ok) {
-      throw new Error(`Nominatim API error: ${response.statusText}`);
+    const language = await getRequestLocale()
+
+    // Coordinates, geo: URIs and map links are used as they are
+    const position = parseLocationInput(address)
+    if (position) {
+      return {
+        isSuccess: true,
+        message: "Location read from coordinates successfully",
+        data: {
+          candidates: [await labelPosition(position, { language, signal })],
+          ambiguous: false,
+          parsed: true
+        }
+      }
     }
 
-    const data = await response.json();
-    if (!data || data.length === 0) {
+    const { provider, results } = await searchGeocoders(
+      geocodingProviders,
+      address,
+      { limit: MAX_GEOCODING_CANDIDATES, language, signal }
+    )
+
+    if (results.length === 0) {
       return {
         isSuccess: false,
         message: "No results found for the provided address"
-      };
+      }
     }
 
+    const candidates = getDistinctCandidates(results).map(result => ({
+      ...result,
+      provider
+    }))
+
     return {
       isSuccess: true,
-      message: "Location geocoded successfully (fallback)",
-      data: {
-        lat: data[0].lat,
-        lon: data[0].lon,
-        display_name: data[0].display_name
+      message: "Location geocoded successfully",
+      data: { candidates, ambiguous: isAmbiguous(candidates), parsed: false }
+    }
+  } catch (error) {
+    console.error("Error geocoding location:", error)
+    return { isSuccess: false, message: "Failed to geocode location" }
+  }
+}
+
+// Addresses matching a partly typed query, for suggesting while typing.
+// Queries too short to narrow things down, and coordinates or map links,
+// get no suggestions.
+export async function autocompleteAddressAction(
+  query: string,
+  signal: AbortSignal = AbortSignal.timeout(ACTION_TIMEOUT)
+): Promise<ActionState<GeocodingResult[]>> {
+  try {
+    const trimmed = query.trim()
+    if (
+      trimmed.length < MIN_AUTOCOMPLETE_LENGTH ||
+      parseLocationInput(trimmed)
+    ) {
+      return {
+        isSuccess: true,
+        message: "No suggestions needed for the query",
+        data: []
       }
-    };
+    }
+
+    const answer = await autocompleteGeocoders(autocompleteProviders, trimmed, {
+      limit: MAX_GEOCODER_SUGGESTIONS,
+      language: await getRequestLocale(),
+      signal
+    })
+
+    return {
+      isSuccess: true,
+      message: "Suggestions retrieved successfully",
+      data: answer
+        ? answer.results.map(result => ({
+            ...result,
+            provider: answer.provider
+          }))
+        : []
+    }
   } catch (error) {
-    console.error("Error with fallback geocoding:", error);
-    return { isSuccess: false, message: "Failed to geocode location with fallback service" };
+    console.error("Error autocompleting address:", error)
+    return { isSuccess: false, message: "Failed to suggest addresses" }
   }
 }
 
-// Modify the geocodeLocationAction to use the fallback if LocationIQ fails
-export async function geocodeLocationAction(
-  address: string
-): Promise<ActionState<GeocodingResult>> {
+// Names the place a point lies in, e.g. "Princeton, NJ", through the same
+// provider chain as geocoding
+export async function reverseGeocodeAction(
+  lat: string,
+  lon: string,
+  signal: AbortSignal = AbortSignal.timeout(ACTION_TIMEOUT)
+): Promise<ActionState<ReverseGeocodingResult>> {
   try {
-    const apiKey = process.env.NEXT_PUBLIC_LOCATIONIQ_KEY
-    if (!apiKey) {
+    const point = { lat: parseFloat(lat), lng: parseFloat(lon) }
+    if (isNaN(point.lat) || isNaN(point.lng)) {
       return {
         isSuccess: false,
-        message: "LocationIQ API key is not configured"
+        message: "Invalid coordinates for reverse geocoding"
       }
     }
 
-    const url = `https://us1.locationiq.com/v1/search.php?key=${apiKey}&q=${encodeURIComponent(
-      address
-    )}&format=json`
+    const { provider, place } = await reverseGeocoders(
+      geocodingProviders,
+      point.lat,
+      point.lng,
+      { language: await getRequestLocale(), signal }
+    )
 
-    try {
-      const response = await rateLimitedFetch(url)
-      if (!response.ok) {
-        console.warn(`LocationIQ API error: ${response.statusText}. Trying fallback.`);
-        return fallbackGeocodeAction(address);
+    if (!place) {
+      return {
+        isSuccess: false,
+        message: "No named place found at the provided location"
       }
+    }
 
-      const data = await response.json()
-      if (!data || data.length === 0) {
-        return {
-          isSuccess: false,
-          message: "No results found for the provided address"
-        }
+    return {
+      isSuccess: true,
+      message: "Location reverse geocoded successfully",
+      data: { ...place, label: formatPlaceName(place), provider }
+    }
+  } catch (error) {
+    console.error("Error reverse geocoding location:", error)
+    return { isSuccess: false, message: "Failed to reverse geocode location" }
+  }
+}
+
+// The full street address at a point, e.g. for a position from the
+// browser. The point itself is returned as given, so the address only labels
+// it and never moves it.
+export async function reverseGeocodeAddressAction(
+  lat: string,
+  lon: string,
+  signal: AbortSignal = AbortSignal.timeout(ACTION_TIMEOUT)
+): Promise<ActionState<GeocodingResult>> {
+  try {
+    const point = { lat: parseFloat(lat), lng: parseFloat(lon) }
+    if (isNaN(point.lat) || isNaN(point.lng)) {
+      return {
+        isSuccess: false,
+        message: "Invalid coordinates for reverse geocoding"
       }
+    }
 
+    const { provider, address } = await reverseAddressGeocoders(
+      geocodingProviders,
+      point.lat,
+      point.lng,
+      { language: await getRequestLocale(), signal }
+    )
+
+    if (!address) {
       return {
-        isSuccess: true,
-        message: "Location geocoded successfully",
-        data: {
-          lat: data[0].lat,
-          lon: data[0].lon,
-          display_name: data[0].display_name
-        }
+        isSuccess: false,
+        message: "No address found at the provided location"
       }
-    } catch (error) {
-      console.warn("Error with primary geocoding service:", error);
-      return fallbackGeocodeAction(address);
+    }
+
+    return {
+      isSuccess: true,
+      message: "Address found successfully",
+      data: { lat, lon, display_name: address, provider }
     }
   } catch (error) {
-    console.error("Error geocoding location:", error)
-    return { isSuccess: false, message: "Failed to geocode location" }
+    console.error("Error reverse geocoding address:", error)
+    return { isSuccess: false, message: "Failed to find an address" }
   }
 }
 
-// Add this new function to search POIs using Overpass API
+// Searches for named venues around a point, starting at the given radius.
+// Too few results widen the circle in steps up to a cap; too many keep only
+// the nearest and shrink the circle to fit them. LocationIQ is only asked
+// once the widening is over, if Overpass failed or still found too few. The
+// radius finally searched is returned so the map can draw it.
 export async function searchPoisAction(
   lat: string,
   lon: string,
-  radius: number = 1500,
-  types: string[] = ["restaurant", "cafe", "bar", "park", "library", "cinema", "theatre", "museum", "hotel"]
+  radius: number = POI_SEARCH_RADIUS,
+  types: PoiType[] = DEFAULT_POI_TYPES,
+  signal: AbortSignal = AbortSignal.timeout(ACTION_TIMEOUT)
+): Promise<ActionState<PoiSearchResponse>> {
+  // "other" has no tags of its own, so on its own there is nothing to find
+  if (getOsmTagFilters(types).length === 0) {
+    return {
+      isSuccess: true,
+      message: "No categories to search for",
+      data: { pois: [], radius }
+    }
+  }
+
+  const center = { lat: parseFloat(lat), lng: parseFloat(lon) }
+  const language = await getRequestLocale()
+  let searchRadius = radius
+  let result = await searchPoisWithinRadius(
+    lat,
+    lon,
+    searchRadius,
+    types,
+    language,
+    signal
+  )
+
+  // A wider circle is not tried once Overpass has failed, as it would fail too
+  while (result.isSuccess && result.data.length < MIN_POI_RESULTS) {
+    const nextRadius = getNextPoiRadius(searchRadius)
+    if (nextRadius === null) break
+
+    console.log(`Found ${result.data.length} POIs within ${searchRadius}m. Widening to ${nextRadius}m`)
+    searchRadius = nextRadius
+    result = await searchPoisWithinRadius(
+      lat,
+      lon,
+      searchRadius,
+      types,
+      language,
+      signal
+    )
+  }
+
+  if (!result.isSuccess || result.data.length < MIN_POI_RESULTS) {
+    console.warn("Too few POIs found with Overpass API. Trying fallback.")
+    const fallback = await fallbackSearchPoisAction(
+      lat,
+      lon,
+      searchRadius,
+      types,
+      language,
+      signal
+    )
+
+    if (
+      !result.isSuccess ||
+      (fallback.isSuccess && fallback.data.length > result.data.length)
+    ) {
+      result = fallback
+    }
+  }
+
+  if (!result.isSuccess) return result
+
+  return {
+    isSuccess: true,
+    message: result.message,
+    data: limitPoiResults(center, result.data, searchRadius)
+  }
+}
+
+// The name OSM gives a feature in a language (its name:fr tag, say), or its
+// local name when it has none in that language
+function getOsmName(tags: any, language: string): string | undefined {
+  return tags?.[`name:${language}`] || tags?.name
+}
+
+// Named venues in the given categories from the Overpass API. The area is
+// the body of an around filter: a radius followed by one point, or by the
+// points of a line to search along.
+async function queryOverpassPois(
+  area: string,
+  types: PoiType[],
+  language: string,
+  signal: AbortSignal
+): Promise<PoiResponse[]> {
+  // Overpass rejects a query with an empty union
+  const filters = getOsmTagFilters(types);
+  if (filters.length === 0) return [];
+
+  // Build the Overpass query
+  let overpassQuery = `
+    [out:json][timeout:25];
+    (
+  `;
+  
+  // Add the tags of each category to the query (see lib/poi-categories)
+  filters.forEach(filter => {
+    overpassQuery += `
+      nw${filter}(around:${area});
+    `;
+  });
+  
+  // Ways are returned with their centre, so every result has a position
+  overpassQuery += `
+    );
+    out center;
+  `;
+  
+  // Sent as a GET so the query goes through the rate limiter and the cache
+  // like every other Overpass request
+  const response = await serviceFetchers("overpass")(
+    `https://overpass-api.de/api/interpreter?data=${encodeURIComponent(overpassQuery)}`,
+    { signal }
+  );
+  
+  if (!response.ok) {
+    throw new Error(`Overpass API error: ${response.statusText}`);
+  }
+  
+  const data = await response.json();
+  
+  // A query that timed out or ran out of memory still answers 200, with a
+  // remark saying so
+  if (data?.remark) {
+    throw new Error(`Overpass API error: ${data.remark}`);
+  }
+  
+  return (data?.elements || [])
+    .filter((element: any) => element.tags && element.tags.name) // Only include POIs with names
+    .map((element: any) => ({
+      name: getOsmName(element.tags, language) || 'Unnamed Location',
+      type: getPoiType(element.tags),
+      lat: (element.lat ?? element.center?.lat)?.toString() || "0",
+      lon: (element.lon ?? element.center?.lon)?.toString() || "0",
+      address: {
+        road: element.tags['addr:street'] || '',
+        house_number: element.tags['addr:housenumber'] || '',
+        city: element.tags['addr:city'] || '',
+        state: element.tags['addr:state'] || '',
+        country: element.tags['addr:country'] || ''
+      }
+    }));
+}
+
+// Searches for POIs within one radius using the Overpass API
+async function searchPoisWithinRadius(
+  lat: string,
+  lon: string,
+  radius: number,
+  types: PoiType[],
+  language: string,
+  signal: AbortSignal
 ): Promise<ActionState<PoiResponse[]>> {
   try {
     console.log('Searching POIs with Overpass API');
     
-    // Build the Overpass query
-    let overpassQuery = `
-      [out:json][timeout:25];
-      (
-    `;
-    
-    // Add each type to the query
-    types.forEach(type => {
-      overpassQuery += `
-        node["amenity"="${type}"](around:${radius},${lat},${lon});
-        way["amenity"="${type}"](around:${radius},${lat},${lon});
-      `;
-    });
-    
-    overpassQuery += `
-      );
-      out body;
-      >;
-      out skel qt;
-    `;
-    
-    const response = await fetch("https://overpass-api.de/api/interpreter", {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-        'User-Agent': 'Meet-Me-Halfway/1.0'
-      },
-      body: `data=${encodeURIComponent(overpassQuery)}`
-    });
-    
-    if (!response.ok) {
-      console.warn(`Overpass API error: ${response.statusText}. Trying fallback.`);
-      return fallbackSearchPoisAction(lat, lon, radius, types);
-    }
-    
-    const data = await response.json();
+    const pois = await queryOverpassPois(`${radius},${lat},${lon}`, types, language, signal);
     
-    if (data && data.elements && data.elements.length > 0) {
-      const pois = data.elements
-        .filter((element: any) => element.tags && element.tags.name) // Only include POIs with names
-        .map((element: any) => ({
-          name: element.tags.name || 'Unnamed Location',
-          type: element.tags.amenity || element.tags.shop || element.tags.leisure || 'place',
-          lat: element.lat?.toString() || "0",
-          lon: element.lon?.toString() || "0",
-          address: {
-            road: element.tags['addr:street'] || '',
-            house_number: element.tags['addr:housenumber'] || '',
-            city: element.tags['addr:city'] || '',
-            state: element.tags['addr:state'] || '',
-            country: element.tags['addr:country'] || ''
-          }
-        }));
-      
-      if (pois.length === 0) {
-        console.warn('No named POIs found with Overpass API. Trying fallback.');
-        return fallbackSearchPoisAction(lat, lon, radius, types);
-      }
-      
+    return {
+      isSuccess: true,
+      message: "Points of interest found successfully",
+      data: pois
+    };
+  } catch (error) {
+    console.error("Error searching POIs with Overpass API:", error);
+    return { isSuccess: false, message: "Failed to search points of interest" };
+  }
+}
+
+// Searches for POIs within a corridor either side of a stretch of route, so
+// venues just off the road are found as well as those around the midpoint.
+// Only Overpass can search along a line; if it fails, the search falls back
+// to a circle around the middle of the corridor.
+export async function searchCorridorPoisAction(
+  corridor: { lat: number; lng: number }[],
+  width: number = CORRIDOR_WIDTH,
+  types: PoiType[] = DEFAULT_POI_TYPES,
+  signal: AbortSignal = AbortSignal.timeout(ACTION_TIMEOUT)
+): Promise<ActionState<PoiSearchResponse>> {
+  const middle = corridor[Math.floor(corridor.length / 2)]
+  if (!middle) {
+    return { isSuccess: false, message: "No route to search along" }
+  }
+
+  try {
+    // Rounded to about a metre, which keeps the query's URL short
+    const line = corridor
+      .map(point => `${point.lat.toFixed(5)},${point.lng.toFixed(5)}`)
+      .join(",")
+    const pois = await queryOverpassPois(
+      `${width},${line}`,
+      types,
+      await getRequestLocale(),
+      signal
+    )
+
+    if (pois.length > 0) {
       return {
         isSuccess: true,
-        message: "Points of interest found successfully",
-        data: pois
-      };
-    } else {
-      console.warn('No POIs found with Overpass API. Trying fallback.');
-      return fallbackSearchPoisAction(lat, lon, radius, types);
+        message: "Points of interest found along the route",
+        data: {
+          pois: limitCorridorPoiResults(middle, pois),
+          radius: width,
+          corridor
+        }
+      }
     }
+
+    console.warn("No named POIs found along the route. Searching around it.")
   } catch (error) {
-    console.error("Error searching POIs with Overpass API:", error);
-    return fallbackSearchPoisAction(lat, lon, radius, types);
+    console.error("Error searching POIs along the route:", error)
   }
+
+  return searchPoisAction(
+    middle.lat.toString(),
+    middle.lng.toString(),
+    POI_SEARCH_RADIUS,
+    types,
+    signal
+  )
 }
 
 // Add a fallback POI search using LocationIQ
@@ -277,7 +690,9 @@ async function fallbackSearchPoisAction(
   lat: string,
   lon: string,
   radius: number = 1500,
-  types: string[] = ["restaurant", "cafe", "bar", "park", "library", "cinema", "theatre", "museum", "hotel"]
+  types: PoiType[] = DEFAULT_POI_TYPES,
+  language: string,
+  signal: AbortSignal
 ): Promise<ActionState<PoiResponse[]>> {
   try {
     console.log('Using fallback POI search (LocationIQ)');
@@ -290,16 +705,20 @@ async function fallbackSearchPoisAction(
       }
     }
 
-    const poiPromises = types.map(async (type) => {
-      const url = `https://us1.locationiq.com/v1/nearby.php?key=${apiKey}&lat=${lat}&lon=${lon}&tag=${type}&radius=${radius}&format=json`
+    // Categories without tags of their own ("other") are not searched for
+    const searchable = types.filter(type => getLocationIqTags(type))
+    const poiPromises = searchable.map(async (type) => {
+      const url = `https://us1.locationiq.com/v1/nearby.php?key=${apiKey}&lat=${lat}&lon=${lon}&tag=${getLocationIqTags(type)}&radius=${radius}&format=json${languageParam(language)}`
 
-      const response = await rateLimitedFetch(url)
+      const response = await serviceFetchers("locationiq-nearby")(url, { signal })
       if (!response.ok) {
         throw new Error(`LocationIQ API error: ${response.statusText}`)
       }
 
       const data = await response.json()
-      return data
+
+      // Each place is put in the category it was searched for
+      return (Array.isArray(data) ? data : []).map((poi: any) => ({ ...poi, type }))
     })
 
     const results = await Promise.all(poiPromises)
@@ -340,12 +759,44 @@ async function fallbackSearchPoisAction(
   }
 }
 
+// A straight-line route at the mode's average speed, for when the routing
+// provider cannot be reached
+function estimateDirectRoute(
+  startLat: string,
+  startLon: string,
+  endLat: string,
+  endLon: string,
+  travelMode: TravelMode
+): RouteResult {
+  const directDistance = calculateDistance(
+    parseFloat(startLat), parseFloat(startLon),
+    parseFloat(endLat), parseFloat(endLon)
+  )
+
+  return {
+    distance: directDistance,
+    duration: directDistance / FALLBACK_SPEEDS[travelMode],
+    geometry: {
+      coordinates: [
+        [parseFloat(startLon), parseFloat(startLat)],
+        [parseFloat(endLon), parseFloat(endLat)]
+      ],
+      type: "LineString"
+    },
+    quality: "estimated",
+    avoided: []
+  }
+}
+
 export async function getRouteAction(
   startLat: string,
   startLon: string,
   endLat: string,
-  endLon: string
-): Promise<ActionState<any>> {
+  endLon: string,
+  travelMode: TravelMode = DEFAULT_TRAVEL_MODE,
+  avoid: RouteAvoidance[] = [],
+  signal: AbortSignal = AbortSignal.timeout(ACTION_TIMEOUT)
+): Promise<ActionState<RouteResult>> {
   try {
     // Validate coordinates
     if (!startLat || !startLon || !endLat || !endLon) {
@@ -368,44 +819,14 @@ export async function getRouteAction(
       }
     }
     
-    // Using OSRM for routing
-    const url = `https://router.project-osrm.org/route/v1/driving/${startLon},${startLat};${endLon},${endLat}?overview=full&geometries=geojson`
-
-    const response = await rateLimitedFetch(url)
-    if (!response.ok) {
-      console.warn(`OSRM API error: ${response.statusText}. Using fallback route data.`);
-      
-      // Return a fallback route with estimated data
-      // This is better than failing completely
-      const directDistance = calculateDistance(
-        parseFloat(startLat), parseFloat(startLon),
-        parseFloat(endLat), parseFloat(endLon)
-      );
-      
-      // Estimate duration based on distance (assuming average speed of 50 km/h)
-      // 50 km/h = 13.89 m/s
-      const estimatedDuration = directDistance / 13.89;
-      
-      // Create a simple straight-line route as fallback
-      return {
-        isSuccess: true,
-        message: "Route estimated (API error)",
-        data: {
-          distance: directDistance,
-          duration: estimatedDuration,
-          geometry: {
-            coordinates: [
-              [parseFloat(startLon), parseFloat(startLat)],
-              [parseFloat(endLon), parseFloat(endLat)]
-            ],
-            type: "LineString"
-          }
-        }
-      }
-    }
-
-    const data = await response.json()
-    if (!data || !data.routes || data.routes.length === 0) {
+    const routes = await routingProvider.getRoutes({
+      start: { lat: coords[0], lng: coords[1] },
+      end: { lat: coords[2], lng: coords[3] },
+      travelMode,
+      avoid,
+      signal
+    })
+    if (routes.length === 0) {
       return {
         isSuccess: false,
         message: "No route found between the provided locations"
@@ -415,36 +836,21 @@ export async function getRouteAction(
     return {
       isSuccess: true,
       message: "Route calculated successfully",
-      data: data.routes[0]
+      data: {
+        ...routes[0],
+        quality: routingProvider.quality,
+        avoided: routingProvider.getAvoidances(travelMode, avoid)
+      }
     }
   } catch (error) {
     console.error("Error calculating route:", error)
     
     // Return a fallback route with estimated data
     try {
-      const directDistance = calculateDistance(
-        parseFloat(startLat), parseFloat(startLon),
-        parseFloat(endLat), parseFloat(endLon)
-      );
-      
-      // Estimate duration based on distance (assuming average speed of 50 km/h)
-      // 50 km/h = 13.89 m/s
-      const estimatedDuration = directDistance / 13.89;
-      
       return {
         isSuccess: true,
         message: "Route estimated (error fallback)",
-        data: {
-          distance: directDistance,
-          duration: estimatedDuration,
-          geometry: {
-            coordinates: [
-              [parseFloat(startLon), parseFloat(startLat)],
-              [parseFloat(endLon), parseFloat(endLat)]
-            ],
-            type: "LineString"
-          }
-        }
+        data: estimateDirectRoute(startLat, startLon, endLat, endLon, travelMode)
       }
     } catch (fallbackError) {
       return { 
@@ -455,15 +861,29 @@ export async function getRouteAction(
   }
 }
 
+// The share (0-1) is the part of the trip time that falls to the person at
+// the start; 0.5 has both travel for the same time
 export async function calculateMidpointAction(
   startLat: string,
   startLon: string,
   endLat: string,
-  endLon: string
-): Promise<ActionState<{ lat: string; lon: string }>> {
+  endLon: string,
+  travelMode: TravelMode = DEFAULT_TRAVEL_MODE,
+  startShare: number = 0.5,
+  avoid: RouteAvoidance[] = [],
+  signal: AbortSignal = AbortSignal.timeout(ACTION_TIMEOUT)
+): Promise<ActionState<RouteMidpointResponse>> {
   try {
     // Get the route first
-    const routeResult = await getRouteAction(startLat, startLon, endLat, endLon)
+    const routeResult = await getRouteAction(
+      startLat,
+      startLon,
+      endLat,
+      endLon,
+      travelMode,
+      avoid,
+      signal
+    )
     
     if (!routeResult.isSuccess) {
       return {
@@ -472,62 +892,35 @@ export async function calculateMidpointAction(
       }
     }
     
-    const route = routeResult.data
-    
-    // Extract the coordinates from the route
-    const coordinates = route.geometry.coordinates
+    // Find the point where the trip times match the shares, falling back to
+    // splitting by distance when the route has no duration annotations
+    const distanceMidpoint = getRouteMidpoint(
+      routeResult.data,
+      "distance",
+      startShare
+    )
+    const timeMidpoint = getRouteMidpoint(routeResult.data, "time", startShare)
+    const midpoint = timeMidpoint || distanceMidpoint
     
-    if (!coordinates || coordinates.length < 2) {
+    if (!midpoint || !distanceMidpoint) {
       return {
         isSuccess: false,
         message: "Route has insufficient points for midpoint calculation"
       }
     }
     
-    // Calculate the total distance of the route
-    let totalDistance = 0
-    const distances = []
-    
-    for (let i = 1; i < coordinates.length; i++) {
-      const segmentDistance = calculateDistance(
-        coordinates[i-1][1], coordinates[i-1][0], 
-        coordinates[i][1], coordinates[i][0]
-      )
-      distances.push(segmentDistance)
-      totalDistance += segmentDistance
-    }
-    
-    // Find the midpoint (50% of the total distance)
-    const halfDistance = totalDistance / 2
-    let distanceCovered = 0
-    let midpointIndex = 0
-    
-    for (let i = 0; i < distances.length; i++) {
-      distanceCovered += distances[i]
-      if (distanceCovered >= halfDistance) {
-        midpointIndex = i
-        break
-      }
-    }
-    
-    // Calculate the exact midpoint using linear interpolation
-    const segmentStart = coordinates[midpointIndex]
-    const segmentEnd = coordinates[midpointIndex + 1]
-    
-    // Calculate how far along the segment the midpoint is
-    const distanceBeforeSegment = distanceCovered - distances[midpointIndex]
-    const segmentFraction = (halfDistance - distanceBeforeSegment) / distances[midpointIndex]
-    
-    // Interpolate the coordinates
-    const midpointLon = segmentStart[0] + segmentFraction * (segmentEnd[0] - segmentStart[0])
-    const midpointLat = segmentStart[1] + segmentFraction * (segmentEnd[1] - segmentStart[1])
-    
     return {
       isSuccess: true,
       message: "Midpoint calculated successfully",
       data: {
-        lat: midpointLat.toString(),
-        lon: midpointLon.toString()
+        lat: midpoint.lat.toString(),
+        lon: midpoint.lng.toString(),
+        quality: routeResult.data.quality,
+        metric: timeMidpoint ? "time" : "distance",
+        distanceMidpoint: {
+          lat: distanceMidpoint.lat.toString(),
+          lon: distanceMidpoint.lng.toString()
+        }
       }
     }
   } catch (error) {
@@ -536,258 +929,693 @@ export async function calculateMidpointAction(
   }
 }
 
-export async function getAlternateRouteAction(
+// Gets the best route between two points followed by up to maxRoutes - 1
+// genuine alternatives from the routing provider. When the provider has no
+// alternatives only the best route is returned, so callers can say that no
+// alternative is available.
+export async function getRoutesAction(
   startLat: string,
   startLon: string,
   endLat: string,
-  endLon: string
-): Promise<ActionState<any>> {
+  endLon: string,
+  travelMode: TravelMode = DEFAULT_TRAVEL_MODE,
+  maxRoutes: number = MAX_ROUTES,
+  avoid: RouteAvoidance[] = [],
+  signal: AbortSignal = AbortSignal.timeout(ACTION_TIMEOUT)
+): Promise<ActionState<RouteResult[]>> {
   try {
-    // Validate coordinates
     if (!startLat || !startLon || !endLat || !endLon) {
       return {
         isSuccess: false,
-        message: "Missing coordinates for alternate route calculation"
+        message: "Missing coordinates for route calculation"
       }
     }
-    
-    // Ensure coordinates are valid numbers
+
     const coords = [
       parseFloat(startLat), parseFloat(startLon),
       parseFloat(endLat), parseFloat(endLon)
-    ];
-    
+    ]
+
     if (coords.some(isNaN)) {
       return {
         isSuccess: false,
-        message: "Invalid coordinates for alternate route calculation"
+        message: "Invalid coordinates for route calculation"
       }
     }
-    
-    // Using OSRM for routing with alternatives=true to get alternate routes
-    const url = `https://router.project-osrm.org/route/v1/driving/${startLon},${startLat};${endLon},${endLat}?overview=full&geometries=geojson&alternatives=true`
 
-    const response = await rateLimitedFetch(url)
-    if (!response.ok) {
-      console.warn(`OSRM API error for alternate route: ${response.statusText}. Using fallback route data.`);
-      
-      // Return a fallback route with estimated data
-      // Create a slightly offset route from the direct line
-      const directDistance = calculateDistance(
-        parseFloat(startLat), parseFloat(startLon),
-        parseFloat(endLat), parseFloat(endLon)
-      );
-      
-      // Estimate duration based on distance (assuming average speed of 45 km/h for alternate route)
-      // 45 km/h = 12.5 m/s
-      const estimatedDuration = directDistance / 12.5;
-      
-      // Add a slight offset to create a visually different route
-      const midLat = (parseFloat(startLat) + parseFloat(endLat)) / 2;
-      const midLon = (parseFloat(startLon) + parseFloat(endLon)) / 2;
-      
-      // Offset the midpoint slightly
-      const offsetMidLat = midLat + 0.01;
-      const offsetMidLon = midLon + 0.01;
-      
+    const routes = await routingProvider.getRoutes({
+      start: { lat: coords[0], lng: coords[1] },
+      end: { lat: coords[2], lng: coords[3] },
+      travelMode,
+      alternatives: maxRoutes > 1,
+      avoid,
+      signal
+    })
+    if (routes.length === 0) {
+      return {
+        isSuccess: false,
+        message: "No route found between the provided locations"
+      }
+    }
+
+    const avoided = routingProvider.getAvoidances(travelMode, avoid)
+
+    return {
+      isSuccess: true,
+      message:
+        routes.length > 1
+          ? "Routes calculated successfully"
+          : "Route calculated successfully; no alternative route available",
+      data: routes
+        .slice(0, maxRoutes)
+        .map(route => ({ ...route, quality: routingProvider.quality, avoided }))
+    }
+  } catch (error) {
+    console.error("Error calculating routes:", error)
+
+    // An estimated straight line stands in for the best route. There is no
+    // way to estimate a genuine alternative, so none is returned.
+    try {
       return {
         isSuccess: true,
-        message: "Alternate route estimated (API error)",
-        data: {
-          distance: directDistance * 1.1, // Slightly longer than direct route
-          duration: estimatedDuration * 1.1, // Slightly longer duration
-          geometry: {
-            coordinates: [
-              [parseFloat(startLon), parseFloat(startLat)],
-              [offsetMidLon, offsetMidLat], // Add a waypoint to create a different path
-              [parseFloat(endLon), parseFloat(endLat)]
-            ],
-            type: "LineString"
-          }
-        }
+        message: "Route estimated (error fallback); no alternative route available",
+        data: [
+          estimateDirectRoute(startLat, startLon, endLat, endLon, travelMode)
+        ]
+      }
+    } catch (fallbackError) {
+      return {
+        isSuccess: false,
+        message: "Failed to calculate routes and fallback also failed"
       }
     }
+  }
+}
+
+// Travel times (seconds) and distances (meters) from each source to each
+// destination, using the routing provider's table service. Falls back to
+// straight-line estimates at the mode's average speed if it is unavailable.
+async function getRouteTable(
+  sources: LatLng[],
+  destinations: LatLng[],
+  travelMode: TravelMode,
+  avoid: RouteAvoidance[],
+  signal: AbortSignal
+): Promise<TravelTimeMatrix> {
+  try {
+    const table = await routingProvider.getTable(
+      sources,
+      destinations,
+      travelMode,
+      avoid,
+      { signal }
+    )
+    return { ...table, quality: routingProvider.quality }
+  } catch (error) {
+    // An abandoned table is not estimated either
+    if (signal.aborted) throw error
 
-    const data = await response.json()
-    if (!data || !data.routes || data.routes.length === 0) {
+    console.warn("Travel time table unavailable. Using estimated travel times.", error)
+
+    const distances = sources.map(source =>
+      destinations.map(destination => distanceBetween(source, destination))
+    )
+
+    return {
+      durations: distances.map(row =>
+        row.map(distance => distance / FALLBACK_SPEEDS[travelMode])
+      ),
+      distances,
+      quality: "estimated"
+    }
+  }
+}
+
+// Same as getRouteTable, but splits the destinations into as few requests as
+// the provider's coordinate limit allows
+async function getChunkedRouteTable(
+  sources: LatLng[],
+  destinations: LatLng[],
+  travelMode: TravelMode,
+  avoid: RouteAvoidance[],
+  signal: AbortSignal
+): Promise<TravelTimeMatrix> {
+  const chunkSize = Math.max(
+    1,
+    Math.min(
+      destinations.length,
+      routingProvider.maxTableCoordinates - sources.length
+    )
+  )
+  const matrix: TravelTimeMatrix = {
+    durations: sources.map(() => []),
+    distances: sources.map(() => []),
+    quality: "routed"
+  }
+
+  for (let i = 0; i < destinations.length; i += chunkSize) {
+    const table = await getRouteTable(
+      sources,
+      destinations.slice(i, i + chunkSize),
+      travelMode,
+      avoid,
+      signal
+    )
+
+    sources.forEach((_, row) => {
+      matrix.durations[row].push(...table.durations[row])
+      matrix.distances[row].push(...table.distances[row])
+    })
+    matrix.quality = combineQuality(matrix.quality, table.quality)
+  }
+
+  return matrix
+}
+
+// Travel times and distances from each origin to each destination, using the
+// origin's own travel mode. Makes one table request per mode in use.
+async function getOriginRouteTable(
+  points: LatLng[],
+  modes: TravelMode[],
+  destinations: LatLng[],
+  avoid: RouteAvoidance[],
+  signal: AbortSignal
+): Promise<TravelTimeMatrix> {
+  const matrix: TravelTimeMatrix = {
+    durations: points.map(() => []),
+    distances: points.map(() => []),
+    quality: "routed"
+  }
+
+  for (const mode of Array.from(new Set(modes))) {
+    const indexes = modes
+      .map((originMode, i) => (originMode === mode ? i : -1))
+      .filter(i => i !== -1)
+    const table = await getChunkedRouteTable(
+      indexes.map(i => points[i]),
+      destinations,
+      mode,
+      avoid,
+      signal
+    )
+
+    indexes.forEach((originIndex, row) => {
+      matrix.durations[originIndex] = table.durations[row]
+      matrix.distances[originIndex] = table.distances[row]
+    })
+    matrix.quality = combineQuality(matrix.quality, table.quality)
+  }
+
+  return matrix
+}
+
+// A meeting point found by comparing trip times, and whether any of the
+// routing data used to find it was estimated
+interface MeetingPointEstimate {
+  point: LatLng
+  quality: DataQuality
+}
+
+// Finds the point along the path between two people where their trip times
+// match their weights when each travels by their own mode. Samples the path,
+// then samples again more finely around where the weighted times cross.
+async function findMixedModePairMidpoint(
+  points: LatLng[],
+  modes: TravelMode[],
+  weights: number[],
+  avoid: RouteAvoidance[],
+  signal: AbortSignal
+): Promise<MeetingPointEstimate | null> {
+  const route = await getRouteAction(
+    points[0].lat.toString(),
+    points[0].lng.toString(),
+    points[1].lat.toString(),
+    points[1].lng.toString(),
+    getSlowestTravelMode(modes),
+    avoid,
+    signal
+  )
+  const coordinates = route.isSuccess ? route.data?.geometry?.coordinates : null
+  if (!coordinates || coordinates.length < 2) return null
+
+  let quality = route.data!.quality
+  let from = 0
+  let to = 1
+  let fraction = 0.5
+
+  for (const count of [9, 5]) {
+    const samples = sampleAlongLine(coordinates, count, from, to)
+    const table = await getOriginRouteTable(
+      points,
+      modes,
+      samples.map(sample => sample.point),
+      avoid,
+      signal
+    )
+    quality = combineQuality(quality, table.quality)
+    const times = applyWeights(table.durations, weights)
+    const estimate = findEqualTimeFraction(
+      samples.map(sample => sample.fraction),
+      times[0],
+      times[1],
+      from,
+      to
+    )
+    if (!estimate) break
+
+    ;({ fraction, from, to } = estimate)
+  }
+
+  const point = interpolateAlongLine(coordinates, fraction)
+  return point ? { point, quality } : null
+}
+
+// Searches for the point whose weighted trip times best meet the objective,
+// with each person travelling by their own mode. Scores the starting
+// candidates, then a grid around the best of them.
+async function searchMeetingPoint(
+  points: LatLng[],
+  modes: TravelMode[],
+  weights: number[],
+  objective: MeetingObjective,
+  avoid: RouteAvoidance[],
+  signal: AbortSignal,
+  candidates: LatLng[],
+  gridHalfWidth: number,
+  quality: DataQuality = "routed"
+): Promise<MeetingPointEstimate | null> {
+  let best: LatLng | null = null
+
+  for (let round = 0; round < 2; round++) {
+    const table = await getOriginRouteTable(
+      points,
+      modes,
+      candidates,
+      avoid,
+      signal
+    )
+    quality = combineQuality(quality, table.quality)
+    const index = pickBestCandidate(
+      applyWeights(table.durations, weights),
+      objective
+    )
+    if (index === -1) break
+
+    best = candidates[index]
+    candidates = sampleGrid(best, gridHalfWidth, 5)
+    gridHalfWidth /= 2.5
+  }
+
+  return best ? { point: best, quality } : null
+}
+
+// Meeting point for two people, searched for along the route between them
+// (in the slowest mode, so both can use it) and then around the best spot
+async function findPairMeetingPoint(
+  points: LatLng[],
+  modes: TravelMode[],
+  weights: number[],
+  objective: MeetingObjective,
+  avoid: RouteAvoidance[],
+  signal: AbortSignal
+): Promise<MeetingPointEstimate | null> {
+  const route = await getRouteAction(
+    points[0].lat.toString(),
+    points[0].lng.toString(),
+    points[1].lat.toString(),
+    points[1].lng.toString(),
+    getSlowestTravelMode(modes),
+    avoid,
+    signal
+  )
+  const coordinates = route.isSuccess ? route.data?.geometry?.coordinates : null
+  if (!coordinates || coordinates.length < 2) return null
+
+  const samples = sampleAlongLine(coordinates, 9)
+
+  // The grid spans the gap between neighbouring samples
+  return searchMeetingPoint(
+    points,
+    modes,
+    weights,
+    objective,
+    avoid,
+    signal,
+    samples.map(sample => sample.point),
+    route.data!.distance / 20,
+    route.data!.quality
+  )
+}
+
+// Meeting point for a group, searched for on a grid around the straight-line
+// centre and then a finer grid around the best candidate
+async function findGroupMeetingPoint(
+  points: LatLng[],
+  modes: TravelMode[],
+  weights: number[],
+  objective: MeetingObjective,
+  avoid: RouteAvoidance[],
+  signal: AbortSignal
+): Promise<MeetingPointEstimate | null> {
+  const center = getMinimaxCenter(points)
+  if (!center) return null
+
+  const halfWidth =
+    Math.max(...points.map(point => distanceBetween(center, point))) / 2
+
+  return searchMeetingPoint(
+    points,
+    modes,
+    weights,
+    objective,
+    avoid,
+    signal,
+    sampleGrid(center, halfWidth, 5),
+    halfWidth / 2.5
+  )
+}
+
+// Calculates a meeting point for any number of origins, placed to meet the
+// chosen objective. Two people aiming for equal travel times meet where their
+// trip times cross along the route between them; otherwise candidate points
+// along and around the route (or around a group's centre) are compared by
+// travel time. Each person's times use their own travel mode and are scaled
+// by their weight, so "equal" means in proportion to the weights. Routes and
+// travel times avoid the requested road features where the provider can.
+export async function calculateMultiMidpointAction(
+  origins: Origin[],
+  travelMode: TravelMode = DEFAULT_TRAVEL_MODE,
+  objective: MeetingObjective = DEFAULT_MEETING_OBJECTIVE,
+  avoid: RouteAvoidance[] = [],
+  signal: AbortSignal = AbortSignal.timeout(ACTION_TIMEOUT)
+): Promise<ActionState<MeetingPointResponse>> {
+  try {
+    if (origins.length < 2) {
       return {
         isSuccess: false,
-        message: "No alternate route found between the provided locations"
+        message: "At least two locations are required to find a midpoint"
       }
     }
 
-    // If there's an alternative route available, return the second route
-    if (data.routes.length > 1) {
+    const modes = getOriginTravelModes(origins, travelMode)
+    const weights = getOriginWeights(origins)
+    const isMixedMode = modes.some(mode => mode !== modes[0])
+    const isEqualTimePair =
+      origins.length === 2 && objective === "equalTime"
+
+    if (isEqualTimePair && !isMixedMode) {
+      return calculateMidpointAction(
+        origins[0].lat,
+        origins[0].lng,
+        origins[1].lat,
+        origins[1].lng,
+        modes[0],
+        getTravelShares(weights)[0],
+        avoid,
+        signal
+      )
+    }
+
+    const points = origins.map(origin => ({
+      lat: parseFloat(origin.lat),
+      lng: parseFloat(origin.lng)
+    }))
+
+    if (points.some(point => isNaN(point.lat) || isNaN(point.lng))) {
       return {
-        isSuccess: true,
-        message: "Alternate route calculated successfully",
-        data: data.routes[1]
+        isSuccess: false,
+        message: "Invalid coordinates for midpoint calculation"
       }
     }
-    
-    // If no alternative route is available, return a modified version of the main route
-    // This is a fallback to ensure we always return something
-    const mainRoute = data.routes[0]
-    
-    // Create a slightly modified version of the main route
-    // by adding a small offset to the coordinates
-    const modifiedRoute = {
-      ...mainRoute,
-      geometry: {
-        ...mainRoute.geometry,
-        coordinates: mainRoute.geometry.coordinates.map((coord: [number, number]) => {
-          // Add a small offset to create a visually different route
-          return [coord[0] + 0.001, coord[1] + 0.001]
-        })
+
+    let center: MeetingPointEstimate | null
+
+    if (isEqualTimePair) {
+      center = await findMixedModePairMidpoint(
+        points,
+        modes,
+        weights,
+        avoid,
+        signal
+      )
+    } else if (points.length === 2) {
+      center = await findPairMeetingPoint(
+        points,
+        modes,
+        weights,
+        objective,
+        avoid,
+        signal
+      )
+    } else {
+      center = await findGroupMeetingPoint(
+        points,
+        modes,
+        weights,
+        objective,
+        avoid,
+        signal
+      )
+    }
+
+    if (!center) {
+      return {
+        isSuccess: false,
+        message: "Failed to calculate midpoint"
       }
     }
-    
+
     return {
       isSuccess: true,
-      message: "Modified alternate route calculated successfully",
-      data: modifiedRoute
+      message: "Midpoint calculated successfully",
+      data: {
+        lat: center.point.lat.toString(),
+        lon: center.point.lng.toString(),
+        quality: center.quality
+      }
     }
   } catch (error) {
-    console.error("Error calculating alternate route:", error)
-    
-    // Return a fallback route with estimated data
-    try {
-      const directDistance = calculateDistance(
-        parseFloat(startLat), parseFloat(startLon),
-        parseFloat(endLat), parseFloat(endLon)
-      );
-      
-      // Estimate duration based on distance (assuming average speed of 45 km/h for alternate route)
-      // 45 km/h = 12.5 m/s
-      const estimatedDuration = directDistance / 12.5;
-      
-      // Add a slight offset to create a visually different route
-      const midLat = (parseFloat(startLat) + parseFloat(endLat)) / 2;
-      const midLon = (parseFloat(startLon) + parseFloat(endLon)) / 2;
-      
-      // Offset the midpoint slightly
-      const offsetMidLat = midLat + 0.01;
-      const offsetMidLon = midLon + 0.01;
-      
+    console.error("Error calculating multi-origin midpoint:", error)
+    return { isSuccess: false, message: "Failed to calculate midpoint" }
+  }
+}
+
+// Travel times and distances from every origin to every destination, in the
+// direction each person travels (origin to destination) and using their own
+// travel mode. Uses table requests rather than one route request per pair.
+export async function getTravelTimeMatrixAction(
+  origins: Origin[],
+  destinations: { lat: string; lng: string }[],
+  travelMode: TravelMode = DEFAULT_TRAVEL_MODE,
+  avoid: RouteAvoidance[] = [],
+  signal: AbortSignal = AbortSignal.timeout(ACTION_TIMEOUT)
+): Promise<ActionState<TravelTimeMatrix>> {
+  try {
+    const toPoint = (point: { lat: string; lng: string }) => ({
+      lat: parseFloat(point.lat),
+      lng: parseFloat(point.lng)
+    })
+    const points = origins.map(toPoint)
+    const targets = destinations.map(toPoint)
+
+    if ([...points, ...targets].some(p => isNaN(p.lat) || isNaN(p.lng))) {
+      return {
+        isSuccess: false,
+        message: "Invalid coordinates for travel time calculation"
+      }
+    }
+
+    if (points.length === 0 || targets.length === 0) {
       return {
         isSuccess: true,
-        message: "Alternate route estimated (error fallback)",
+        message: "No travel times to calculate",
         data: {
-          distance: directDistance * 1.1, // Slightly longer than direct route
-          duration: estimatedDuration * 1.1, // Slightly longer duration
-          geometry: {
-            coordinates: [
-              [parseFloat(startLon), parseFloat(startLat)],
-              [offsetMidLon, offsetMidLat], // Add a waypoint to create a different path
-              [parseFloat(endLon), parseFloat(endLat)]
-            ],
-            type: "LineString"
-          }
+          durations: points.map(() => []),
+          distances: points.map(() => []),
+          quality: "routed"
         }
       }
-    } catch (fallbackError) {
-      return { 
-        isSuccess: false, 
-        message: "Failed to calculate alternate route and fallback also failed" 
-      }
     }
+
+    const matrix = await getOriginRouteTable(
+      points,
+      getOriginTravelModes(origins, travelMode),
+      targets,
+      avoid,
+      signal
+    )
+
+    return {
+      isSuccess: true,
+      message: "Travel times calculated successfully",
+      data: matrix
+    }
+  } catch (error) {
+    console.error("Error calculating travel time matrix:", error)
+    return { isSuccess: false, message: "Failed to calculate travel times" }
   }
 }
 
-// Also add a function to calculate the midpoint for the alternate route
-export async function calculateAlternateMidpointAction(
-  startLat: string,
-  startLon: string,
-  endLat: string,
-  endLon: string
-): Promise<ActionState<{ lat: string; lon: string }>> {
+// Venues and settlement centres within a radius of a point, from Overpass
+async function fetchMeetablePlaces(
+  point: LatLng,
+  radius: number,
+  language: string,
+  signal: AbortSignal
+): Promise<{ venues: LatLng[]; centres: PlaceCentre[] }> {
+  const around = `(around:${Math.round(radius)},${point.lat},${point.lng})`
+  const venueQuery = getOsmTagFilters(MEETABLE_VENUE_TYPES)
+    .map(filter => `node${filter}${around};way${filter}${around};`)
+    .join("")
+  const query = `[out:json][timeout:25];(${venueQuery}node["place"~"^(${MEETABLE_PLACE_TYPES.join("|")})$"]${around};);out center;`
+
+  const response = await serviceFetchers("overpass")(
+    `https://overpass-api.de/api/interpreter?data=${encodeURIComponent(query)}`,
+    { signal }
+  )
+  if (!response.ok) {
+    throw new Error(`Overpass API error: ${response.statusText}`)
+  }
+
+  const data = await response.json()
+  if (data?.remark) {
+    throw new Error(`Overpass API error: ${data.remark}`)
+  }
+
+  const venues: LatLng[] = []
+  const centres: PlaceCentre[] = []
+
+  for (const element of data.elements || []) {
+    const lat = element.lat ?? element.center?.lat
+    const lng = element.lon ?? element.center?.lon
+    if (typeof lat !== "number" || typeof lng !== "number") continue
+
+    if (element.tags?.place) {
+      const name = getOsmName(element.tags, language)
+      if (name) centres.push({ lat, lng, name })
+    } else {
+      venues.push({ lat, lng })
+    }
+  }
+
+  return { venues, centres }
+}
+
+// Moves a midpoint that has little to meet at (the middle of a highway or a
+// field) to the nearest town centre or cluster of venues within a tolerance.
+// The nearest few places are compared by everyone's travel times and the one
+// that best meets the objective wins, so snapping keeps the split fair.
+export async function snapMidpointAction(
+  origins: Origin[],
+  midpoint: MidpointResponse,
+  travelMode: TravelMode = DEFAULT_TRAVEL_MODE,
+  objective: MeetingObjective = DEFAULT_MEETING_OBJECTIVE,
+  avoid: RouteAvoidance[] = [],
+  signal: AbortSignal = AbortSignal.timeout(ACTION_TIMEOUT)
+): Promise<ActionState<SnappedMidpoint>> {
+  const unsnapped = (
+    venueCount: number,
+    quality: DataQuality = "routed"
+  ): SnappedMidpoint => ({
+    ...midpoint,
+    quality,
+    snapped: false,
+    original: midpoint,
+    venueCount,
+    extraTravelTimes: origins.map(() => 0)
+  })
+
   try {
-    // Get the alternate route first
-    const routeResult = await getAlternateRouteAction(startLat, startLon, endLat, endLon)
-    
-    if (!routeResult.isSuccess) {
+    const center = {
+      lat: parseFloat(midpoint.lat),
+      lng: parseFloat(midpoint.lon)
+    }
+    const points = origins.map(origin => ({
+      lat: parseFloat(origin.lat),
+      lng: parseFloat(origin.lng)
+    }))
+
+    if ([center, ...points].some(p => isNaN(p.lat) || isNaN(p.lng))) {
       return {
         isSuccess: false,
-        message: routeResult.message
+        message: "Invalid coordinates for snapping the midpoint"
       }
     }
-    
-    const route = routeResult.data
-    
-    // Extract the coordinates from the route
-    const coordinates = route.geometry.coordinates
-    
-    if (!coordinates || coordinates.length < 2) {
+
+    // Venues are counted within the POI search radius of points up to the
+    // tolerance away, so they are fetched that much further out
+    const tolerance = getSnapTolerance(center, points)
+    const { venues, centres } = await fetchMeetablePlaces(
+      center,
+      tolerance + POI_SEARCH_RADIUS,
+      await getRequestLocale(),
+      signal
+    )
+    const venueCount = countVenuesNear(center, venues)
+
+    if (venueCount >= MIN_MEETABLE_VENUES) {
       return {
-        isSuccess: false,
-        message: "Route has insufficient points for midpoint calculation"
+        isSuccess: true,
+        message: "Midpoint already has places to meet",
+        data: unsnapped(venueCount)
       }
     }
-    
-    // Calculate the total distance of the route
-    let totalDistance = 0
-    const distances = []
-    
-    for (let i = 1; i < coordinates.length; i++) {
-      const segmentDistance = calculateDistance(
-        coordinates[i-1][1], coordinates[i-1][0], 
-        coordinates[i][1], coordinates[i][0]
-      )
-      distances.push(segmentDistance)
-      totalDistance += segmentDistance
+
+    const places = findMeetablePlaces(center, venues, centres, tolerance)
+    if (places.length === 0) {
+      return {
+        isSuccess: true,
+        message: "No place to meet within reach of the midpoint",
+        data: unsnapped(venueCount)
+      }
     }
-    
-    // Find the midpoint (50% of the total distance)
-    const halfDistance = totalDistance / 2
-    let distanceCovered = 0
-    let midpointIndex = 0
-    
-    for (let i = 0; i < distances.length; i++) {
-      distanceCovered += distances[i]
-      if (distanceCovered >= halfDistance) {
-        midpointIndex = i
-        break
+
+    // The original midpoint comes first, so each place's extra travel time
+    // is its column minus the first
+    const table = await getOriginRouteTable(
+      points,
+      getOriginTravelModes(origins, travelMode),
+      [center, ...places.map(place => place.point)],
+      avoid,
+      signal
+    )
+    const index = pickBestCandidate(
+      applyWeights(
+        table.durations.map(row => row.slice(1)),
+        getOriginWeights(origins)
+      ),
+      objective
+    )
+    if (index === -1) {
+      return {
+        isSuccess: true,
+        message: "No place to meet that everyone can reach",
+        data: unsnapped(venueCount, table.quality)
       }
     }
-    
-    // Calculate the exact midpoint using linear interpolation
-    const segmentStart = coordinates[midpointIndex]
-    const segmentEnd = coordinates[midpointIndex + 1]
-    
-    // Calculate how far along the segment the midpoint is
-    const distanceBeforeSegment = distanceCovered - distances[midpointIndex]
-    const segmentFraction = (halfDistance - distanceBeforeSegment) / distances[midpointIndex]
-    
-    // Interpolate the coordinates
-    const midpointLon = segmentStart[0] + segmentFraction * (segmentEnd[0] - segmentStart[0])
-    const midpointLat = segmentStart[1] + segmentFraction * (segmentEnd[1] - segmentStart[1])
-    
+
+    const place = places[index]
+
     return {
       isSuccess: true,
-      message: "Alternate midpoint calculated successfully",
+      message: "Midpoint snapped to a place to meet",
       data: {
-        lat: midpointLat.toString(),
-        lon: midpointLon.toString()
+        lat: place.point.lat.toString(),
+        lon: place.point.lng.toString(),
+        quality: table.quality,
+        snapped: true,
+        original: midpoint,
+        placeName: place.name,
+        venueCount: place.venueCount,
+        extraTravelTimes: table.durations.map(row =>
+          row[0] != null && row[index + 1] != null
+            ? row[index + 1]! - row[0]
+            : null
+        )
       }
     }
   } catch (error) {
-    console.error("Error calculating alternate midpoint:", error)
-    return { isSuccess: false, message: "Failed to calculate alternate midpoint" }
+    console.error("Error snapping midpoint:", error)
+    return { isSuccess: false, message: "Failed to snap midpoint" }
   }
 }
-
-// Helper function to calculate distance between two points using the Haversine formula
-function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-  const R = 6371e3 // Earth's radius in meters
-  const φ1 = lat1 * Math.PI / 180
-  const φ2 = lat2 * Math.PI / 180
-  const Δφ = (lat2 - lat1) * Math.PI / 180
-  const Δλ = (lon2 - lon1) * Math.PI / 180
-
-  const a = Math.sin(Δφ/2) * Math.sin(Δφ/2) +
-          Math.cos(φ1) * Math.cos(φ2) *
-          Math.sin(Δλ/2) * Math.sin(Δλ/2)
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a))
-
-  return R * c // Distance in meters
-} 
\ No newline at end of file
@@ -13,7 +13,9 @@ import { PostHogPageview } from "@/components/utilities/posthog/posthog-pageview
 import { PostHogUserIdentify } from "@/components/utilities/posthog/posthog-user-identity"
 import { Providers } from "@/components/utilities/providers"
 import { TailwindIndicator } from "@/components/utilities/tailwind-indicator"
+import { getRequestLocale } from "@/lib/i18n/server"
 import { cn } from "@/lib/utils"
+import { UnitSystem } from "@/types"
 import { ClerkProvider } from "@clerk/nextjs"
 import { auth } from "@clerk/nextjs/server"
 import type { Metadata } from "next"
@@ -34,17 +36,21 @@ export default async function RootLayout({
   children: React.ReactNode
 }) {
   const { userId } = await auth()
+  const locale = await getRequestLocale()
+  let profileUnits: UnitSystem | null = null
 
   if (userId) {
     const profileRes = await getProfileByUserIdAction(userId)
     if (!profileRes.isSuccess) {
       await createProfileAction({ userId })
+    } else {
+      profileUnits = profileRes.data.units
     }
   }
 
   return (
     <ClerkProvider>
-      <html lang="en" suppressHydrationWarning>
+      <html lang={locale} suppressHydrationWarning>
         <body
           className={cn(
             "bg-background mx-auto min-h-screen w-full scroll-smooth antialiased",
@@ -52,6 +58,8 @@ export default async function RootLayout({
           )}
         >
           <Providers
+            locale={locale}
+            profileUnits={profileUnits}
             attribute="class"
             defaultTheme="light"
             enableSystem={false}
@@ -0,0 +1,255 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { GeocodingProviderName, GeocodingResult, Location } from "@/types"
+import {
+  AUTOCOMPLETE_DEBOUNCE_MS,
+  MIN_AUTOCOMPLETE_LENGTH,
+  matchSavedLocations
+} from "@/lib/autocomplete"
+import { useDebouncedValue } from "@/lib/hooks/use-debounced-value"
+import {
+  Command,
+  CommandGroup,
+  CommandItem,
+  CommandList
+} from "@/components/ui/command"
+import { Popover, PopoverAnchor, PopoverContent } from "@/components/ui/popover"
+import { Input } from "@/components/ui/input"
+import { Bookmark, Loader2, MapPin } from "lucide-react"
+import { useI18n } from "@/components/utilities/i18n-provider"
+import { autocompleteAddressAction } from "@/actions/locationiq-actions"
+
+// An address picked from the suggestions, already located
+export interface AddressSelection {
+  address: string
+  lat: string
+  lng: string
+  // Set when a saved location was picked
+  locationId?: string
+  geocodedBy?: GeocodingProviderName
+}
+
+interface AddressAutocompleteProps {
+  id?: string
+  value: string
+  onChange: (address: string) => void
+  onSelect: (selection: AddressSelection) => void
+  // Saved locations to suggest alongside the geocoder's matches
+  locations: Location[]
+  placeholder?: string
+  required?: boolean
+}
+
+interface SuggestionOption {
+  value: string
+  selection: AddressSelection
+}
+
+export default function AddressAutocomplete({
+  id,
+  value,
+  onChange,
+  onSelect,
+  locations,
+  placeholder,
+  required = false
+}: AddressAutocompleteProps) {
+  const { t } = useI18n()
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [isOpen, setIsOpen] = useState(false)
+  const [suggestions, setSuggestions] = useState<GeocodingResult[]>([])
+  const [isSearching, setIsSearching] = useState(false)
+  const [highlighted, setHighlighted] = useState("")
+  // The address last filled in from a suggestion, which needs no suggestions
+  // of its own
+  const [selectedAddress, setSelectedAddress] = useState<string | null>(null)
+
+  const query = useDebouncedValue(value, AUTOCOMPLETE_DEBOUNCE_MS)
+
+  useEffect(() => {
+    if (
+      query.trim().length < MIN_AUTOCOMPLETE_LENGTH ||
+      query === selectedAddress
+    ) {
+      setSuggestions([])
+      setIsSearching(false)
+      return
+    }
+
+    let isCurrent = true
+    setIsSearching(true)
+
+    autocompleteAddressAction(query).then(result => {
+      if (!isCurrent) return
+      setSuggestions(result.isSuccess ? result.data : [])
+      setIsSearching(false)
+    })
+
+    return () => {
+      isCurrent = false
+    }
+  }, [query, selectedAddress])
+
+  const savedMatches =
+    value === selectedAddress ? [] : matchSavedLocations(locations, value)
+
+  const savedOptions: SuggestionOption[] = savedMatches.map(location => ({
+    value: `saved-${location.id}`,
+    selection: {
+      address: location.address,
+      lat: location.latitude,
+      lng: location.longitude,
+      locationId: location.id
+    }
+  }))
+  const geocoderOptions: SuggestionOption[] = suggestions.map(
+    (suggestion, i) => ({
+      value: `geocoder-${i}`,
+      selection: {
+        address: suggestion.display_name,
+        lat: suggestion.lat,
+        lng: suggestion.lon,
+        geocodedBy: suggestion.provider
+      }
+    })
+  )
+  // In the order they are listed, for moving through them with the keyboard
+  const options = [...savedOptions, ...geocoderOptions]
+
+  const showList = isOpen && (options.length > 0 || isSearching)
+
+  const handleSelect = (option: SuggestionOption) => {
+    setSelectedAddress(option.selection.address)
+    setSuggestions([])
+    setIsOpen(false)
+    onSelect(option.selection)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    const index = options.findIndex(option => option.value === highlighted)
+
+    switch (e.key) {
+      case "ArrowDown":
+      case "ArrowUp": {
+        e.preventDefault()
+        if (!isOpen) {
+          setIsOpen(true)
+          return
+        }
+        if (options.length === 0) return
+
+        const step = e.key === "ArrowDown" ? 1 : -1
+        const next =
+          index === -1
+            ? step === 1
+              ? 0
+              : options.length - 1
+            : (index + step + options.length) % options.length
+        setHighlighted(options[next].value)
+        break
+      }
+      case "Enter":
+        // Picks the highlighted suggestion, which the menu starts on the first
+        // one. With the list closed, Enter submits the form as usual.
+        if (showList && index !== -1) {
+          e.preventDefault()
+          handleSelect(options[index])
+        }
+        break
+      case "Escape":
+        if (showList) {
+          e.preventDefault()
+          setIsOpen(false)
+        }
+        break
+    }
+  }
+
+  return (
+    <Popover open={showList} onOpenChange={setIsOpen}>
+      <PopoverAnchor asChild>
+        <Input
+          ref={inputRef}
+          id={id}
+          placeholder={placeholder ?? t("autocomplete.placeholder")}
+          value={value}
+          onChange={e => {
+            setIsOpen(true)
+            setHighlighted("")
+            onChange(e.target.value)
+          }}
+          onFocus={() => setIsOpen(true)}
+          onBlur={() => setIsOpen(false)}
+          onKeyDown={handleKeyDown}
+          role="combobox"
+          aria-expanded={showList}
+          aria-autocomplete="list"
+          autoComplete="off"
+          required={required}
+        />
+      </PopoverAnchor>
+      <PopoverContent
+        align="start"
+        className="w-[--radix-popover-trigger-width] p-0"
+        // Keep focus in the input so typing carries on
+        onOpenAutoFocus={e => e.preventDefault()}
+        onMouseDown={e => e.preventDefault()}
+        onInteractOutside={e => {
+          if (e.target === inputRef.current) e.preventDefault()
+        }}
+      >
+        {/* The input sits outside the menu, so its keys are handled above */}
+        <Command
+          shouldFilter={false}
+          value={highlighted}
+          onValueChange={setHighlighted}
+        >
+          <CommandList>
+            {savedOptions.length > 0 && (
+              <CommandGroup heading={t("autocomplete.savedLocations")}>
+                {savedOptions.map((option, i) => (
+                  <CommandItem
+                    key={option.value}
+                    value={option.value}
+                    onSelect={() => handleSelect(option)}
+                    className="flex items-start gap-2"
+                  >
+                    <Bookmark className="mt-0.5 size-4 shrink-0" />
+                    <div className="min-w-0">
+                      <div className="font-medium">{savedMatches[i].name}</div>
+                      <div className="text-muted-foreground truncate text-xs">
+                        {option.selection.address}
+                      </div>
+                    </div>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+            {geocoderOptions.length > 0 && (
+              <CommandGroup heading={t("autocomplete.suggestions")}>
+                {geocoderOptions.map(option => (
+                  <CommandItem
+                    key={option.value}
+                    value={option.value}
+                    onSelect={() => handleSelect(option)}
+                    className="flex items-start gap-2"
+                  >
+                    <MapPin className="mt-0.5 size-4 shrink-0" />
+                    <span>{option.selection.address}</span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+            {isSearching && geocoderOptions.length === 0 && (
+              <div className="text-muted-foreground flex items-center gap-2 px-3 py-2 text-sm">
+                <Loader2 className="size-4 animate-spin" />
+                {t("autocomplete.searching")}
+              </div>
+            )}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  )
+}
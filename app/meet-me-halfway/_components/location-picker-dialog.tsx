@@ -0,0 +1,76 @@
+"use client"
+
+import { GeocodingResult } from "@/types"
+import { formatPlaceType } from "@/lib/geocoding/candidates"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { MapPin } from "lucide-react"
+import { useI18n } from "@/components/utilities/i18n-provider"
+
+interface LocationPickerDialogProps {
+  // Which location is being asked about, e.g. "Location B"
+  label: string
+  // What was typed for it
+  query: string
+  candidates: GeocodingResult[]
+  onSelect: (candidate: GeocodingResult) => void
+  onCancel: () => void
+}
+
+// Asks which of several equally likely places an address meant
+export default function LocationPickerDialog({
+  label,
+  query,
+  candidates,
+  onSelect,
+  onCancel
+}: LocationPickerDialogProps) {
+  const { t } = useI18n()
+
+  return (
+    <Dialog
+      open
+      onOpenChange={open => {
+        if (!open) onCancel()
+      }}
+    >
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t("picker.title", { query })}</DialogTitle>
+          <DialogDescription>
+            {t("picker.description", { label })}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {candidates.map((candidate, i) => (
+            <Button
+              key={i}
+              type="button"
+              variant="outline"
+              className="h-auto w-full items-start justify-start gap-2 whitespace-normal py-2 text-left"
+              onClick={() => onSelect(candidate)}
+            >
+              <MapPin className="mt-0.5 size-4 shrink-0" />
+              <div className="min-w-0 flex-1 space-y-1">
+                <div>{candidate.display_name}</div>
+                {candidate.type && (
+                  <Badge variant="secondary">
+                    {formatPlaceType(candidate.type)}
+                  </Badge>
+                )}
+              </div>
+            </Button>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -6,6 +6,8 @@ import { getLocationsAction } from "@/actions/db/locations-actions"
 import { getSearchesAction } from "@/actions/db/searches-actions"
 import { Button } from "@/components/ui/button"
 import { History } from "lucide-react"
+import { useI18n } from "@/components/utilities/i18n-provider"
+import { MeetingObjective, Origin, RouteAvoidance, TravelMode } from "@/types"
 import MeetMeHalfwayForm from "./meet-me-halfway-form"
 import SavedLocations from "./saved-locations"
 import RecentSearches from "./recent-searches"
@@ -14,13 +16,12 @@ import ResultsMap from "@/app/meet-me-halfway/results/_components/results-map"
 type AppState = "input" | "results"
 
 interface AppData {
-  startLat?: string
-  startLng?: string
-  startAddress?: string
-  endLat?: string
-  endLng?: string
-  endAddress?: string
-  selectedRoute?: "main" | "alternate"
+  origins?: Origin[]
+  travelMode?: TravelMode
+  objective?: MeetingObjective
+  avoid?: RouteAvoidance[]
+  selectedRouteIndex?: number
+  searchId?: string
 }
 
 export default function MeetMeHalfwayApp() {
@@ -30,6 +31,7 @@ export default function MeetMeHalfwayApp() {
   const [locations, setLocations] = useState<any[]>([])
   const [searches, setSearches] = useState<any[]>([])
   const [isLoading, setIsLoading] = useState(true)
+  const { t } = useI18n()
 
   // Load user data on mount
   useEffect(() => {
@@ -75,7 +77,9 @@ export default function MeetMeHalfwayApp() {
   if (!isLoaded || isLoading) {
     return (
       <div className="flex h-64 items-center justify-center">
-        <div className="text-muted-foreground text-lg">Loading...</div>
+        <div className="text-muted-foreground text-lg">
+          {t("common.loading")}
+        </div>
       </div>
     )
   }
@@ -83,10 +87,10 @@ export default function MeetMeHalfwayApp() {
   return (
     <div className="container mx-auto px-4 py-8">
       <div className="mb-8 flex items-center justify-between">
-        <h1 className="text-3xl font-bold">Meet Me Halfway</h1>
+        <h1 className="text-3xl font-bold">{t("app.title")}</h1>
         <Button variant="outline" className="flex items-center gap-2">
           <History className="size-4" />
-          View All Saved Searches
+          {t("app.viewSavedSearches")}
         </Button>
       </div>
 
@@ -111,19 +115,18 @@ export default function MeetMeHalfwayApp() {
             className="mb-4"
             onClick={handleBackToInput}
           >
-            ← Back to Input
+            {t("app.backToInput")}
           </Button>
 
           <ResultsMap
-            startLat={appData.startLat || "0"}
-            startLng={appData.startLng || "0"}
-            endLat={appData.endLat || "0"}
-            endLng={appData.endLng || "0"}
-            startAddress={appData.startAddress || ""}
-            endAddress={appData.endAddress || ""}
-            selectedRoute="main"
-            onRouteSelect={route => {
-              setAppData(prev => ({ ...prev, selectedRoute: route }))
+            origins={appData.origins || []}
+            travelMode={appData.travelMode}
+            objective={appData.objective}
+            avoid={appData.avoid}
+            selectedRouteIndex={appData.selectedRouteIndex ?? 0}
+            searchId={appData.searchId}
+            onRouteSelect={routeIndex => {
+              setAppData(prev => ({ ...prev, selectedRouteIndex: routeIndex }))
             }}
           />
         </div>
@@ -3,7 +3,46 @@
 import { useState, useEffect } from "react"
 import { useRouter } from "next/navigation"
 import { useUser } from "@clerk/nextjs"
-import { Location } from "@/types"
+import {
+  GeocodingProviderName,
+  GeocodingResult,
+  Location,
+  MeetingObjective,
+  Origin,
+  RouteAvoidance,
+  TravelMode
+} from "@/types"
+import {
+  DEFAULT_WEIGHT,
+  MAX_PARTICIPANTS,
+  MAX_WEIGHT,
+  MIN_PARTICIPANTS,
+  MIN_WEIGHT,
+  getOriginLabel,
+  getTravelShares
+} from "@/lib/participants"
+import {
+  DEFAULT_TRAVEL_MODE,
+  TRAVEL_MODES,
+  isTravelMode
+} from "@/lib/travel-modes"
+import {
+  DEFAULT_MEETING_OBJECTIVE,
+  MEETING_OBJECTIVES,
+  isMeetingObjective
+} from "@/lib/objectives"
+import { ROUTE_AVOIDANCES, isRouteAvoidance } from "@/lib/avoidances"
+import {
+  LOW_ACCURACY_METERS,
+  MAX_ACCURACY_METERS,
+  getCurrentPosition,
+  getGeolocationErrorMessage,
+  isGeolocationSupported
+} from "@/lib/geolocation"
+import { formatCoordinates } from "@/lib/location-input"
+import { formatDistance } from "@/lib/units"
+import { useUnits } from "@/components/utilities/units-provider"
+import { useI18n } from "@/components/utilities/i18n-provider"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -15,24 +54,68 @@ import {
   SelectTrigger,
   SelectValue
 } from "@/components/ui/select"
-import { Loader2, MapPin } from "lucide-react"
+import { Slider } from "@/components/ui/slider"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import TravelModeIcon from "@/components/travel-mode-icon"
+import AddressAutocomplete, { AddressSelection } from "./address-autocomplete"
+import LocationPickerDialog from "./location-picker-dialog"
+import { Loader2, LocateFixed, MapPin, Plus, X } from "lucide-react"
 import { toast } from "sonner"
-import { geocodeLocationAction } from "@/actions/locationiq-actions"
+import {
+  geocodeLocationAction,
+  reverseGeocodeAction,
+  reverseGeocodeAddressAction
+} from "@/actions/locationiq-actions"
 import { createSearchAction } from "@/actions/db/searches-actions"
 import { createLocationAction } from "@/actions/db/locations-actions"
+import { createParticipantsAction } from "@/actions/db/participants-actions"
 
 interface MeetMeHalfwayFormProps {
   initialLocations: Location[]
   onFindMidpoint: (data: {
-    startLat: string
-    startLng: string
-    startAddress: string
-    endLat: string
-    endLng: string
-    endAddress: string
+    origins: Origin[]
+    travelMode: TravelMode
+    objective: MeetingObjective
+    avoid: RouteAvoidance[]
+    searchId?: string
   }) => void
 }
 
+interface OriginFormState {
+  address: string
+  // Where the address is, when it came from a suggestion or saved location
+  // and so needs no geocoding on submit
+  point: { lat: string; lng: string; geocodedBy?: GeocodingProviderName } | null
+  locationId: string
+  saveLocation: boolean
+  locationName: string
+  travelMode: TravelMode
+  weight: number
+}
+
+// An origin whose address matched several places equally well, waiting for
+// the user to pick one
+interface PendingChoice {
+  index: number
+  candidates: GeocodingResult[]
+}
+
+const getCandidatePoint = (candidate: GeocodingResult) => ({
+  lat: candidate.lat,
+  lng: candidate.lon,
+  geocodedBy: candidate.provider
+})
+
+const emptyOrigin = (travelMode: TravelMode): OriginFormState => ({
+  address: "",
+  point: null,
+  locationId: "",
+  saveLocation: false,
+  locationName: "",
+  travelMode,
+  weight: DEFAULT_WEIGHT
+})
+
 export default function MeetMeHalfwayForm({
   initialLocations,
   onFindMidpoint
@@ -40,128 +123,301 @@ export default function MeetMeHalfwayForm({
   const { user, isSignedIn } = useUser()
   const router = useRouter()
 
-  const [startAddress, setStartAddress] = useState("")
-  const [endAddress, setEndAddress] = useState("")
-  const [startLocationId, setStartLocationId] = useState("")
-  const [endLocationId, setEndLocationId] = useState("")
+  const [origins, setOrigins] = useState<OriginFormState[]>(() =>
+    Array.from({ length: MIN_PARTICIPANTS }, () =>
+      emptyOrigin(DEFAULT_TRAVEL_MODE)
+    )
+  )
+  const [travelMode, setTravelMode] = useState<TravelMode>(DEFAULT_TRAVEL_MODE)
+  const [objective, setObjective] = useState<MeetingObjective>(
+    DEFAULT_MEETING_OBJECTIVE
+  )
+  const [avoid, setAvoid] = useState<RouteAvoidance[]>([])
   const [isLoading, setIsLoading] = useState(false)
   const [locations, setLocations] = useState<Location[]>(initialLocations)
-  const [saveStartLocation, setSaveStartLocation] = useState(false)
-  const [startLocationName, setStartLocationName] = useState("")
-  const [saveEndLocation, setSaveEndLocation] = useState(false)
-  const [endLocationName, setEndLocationName] = useState("")
+  const [pendingChoices, setPendingChoices] = useState<PendingChoice[]>([])
+  const [isLocating, setIsLocating] = useState(false)
+  const { units } = useUnits()
+  const { t } = useI18n()
 
   useEffect(() => {
     setLocations(initialLocations)
   }, [initialLocations])
 
-  const handleStartLocationSelect = (locationId: string) => {
-    setStartLocationId(locationId)
+  // Percentage of the combined travel time each person takes on
+  const travelShares = getTravelShares(origins.map(origin => origin.weight))
+
+  const updateOrigin = (index: number, data: Partial<OriginFormState>) => {
+    setOrigins(prev =>
+      prev.map((origin, i) => (i === index ? { ...origin, ...data } : origin))
+    )
+  }
+
+  const handleAddOrigin = () => {
+    if (origins.length >= MAX_PARTICIPANTS) return
+    setOrigins(prev => [...prev, emptyOrigin(travelMode)])
+  }
+
+  // Changing the shared mode switches everyone over to it
+  const handleTravelModeChange = (mode: TravelMode) => {
+    setTravelMode(mode)
+    setOrigins(prev => prev.map(origin => ({ ...origin, travelMode: mode })))
+  }
+
+  const handleRemoveOrigin = (index: number) => {
+    if (origins.length <= MIN_PARTICIPANTS) return
+    setOrigins(prev => prev.filter((_, i) => i !== index))
+  }
 
+  const handleLocationSelect = (index: number, locationId: string) => {
     if (locationId === "custom") {
-      setStartAddress("")
+      updateOrigin(index, { locationId, address: "", point: null })
       return
     }
 
     const location = locations.find(loc => loc.id === locationId)
-    if (location) {
-      setStartAddress(location.address)
-    }
+    updateOrigin(index, {
+      locationId,
+      ...(location
+        ? {
+            address: location.address,
+            point: { lat: location.latitude, lng: location.longitude }
+          }
+        : {})
+    })
   }
 
-  const handleEndLocationSelect = (locationId: string) => {
-    setEndLocationId(locationId)
+  const handleAddressSelect = (index: number, selection: AddressSelection) => {
+    updateOrigin(index, {
+      address: selection.address,
+      point: {
+        lat: selection.lat,
+        lng: selection.lng,
+        geocodedBy: selection.geocodedBy
+      },
+      locationId: selection.locationId || ""
+    })
+  }
 
-    if (locationId === "custom") {
-      setEndAddress("")
+  // Fills in the first location from the browser's position. The position
+  // goes into the search as it is; the address looked up for it only labels
+  // it, so it is never geocoded again.
+  const handleUseMyLocation = async () => {
+    if (!isGeolocationSupported()) {
+      toast.error(t("geolocation.unsupported"))
       return
     }
 
-    const location = locations.find(loc => loc.id === locationId)
-    if (location) {
-      setEndAddress(location.address)
+    setIsLocating(true)
+
+    try {
+      const { coords } = await getCurrentPosition()
+      const accuracy = formatDistance(coords.accuracy, units, t)
+
+      if (coords.accuracy > MAX_ACCURACY_METERS) {
+        toast.error(t("geolocation.tooRough", { accuracy }))
+        return
+      }
+
+      const lat = coords.latitude.toString()
+      const lng = coords.longitude.toString()
+      let address = formatCoordinates({
+        lat: coords.latitude,
+        lng: coords.longitude
+      })
+
+      // A rough fix is labelled with the town it lies in rather than a
+      // street it may well not be on
+      if (coords.accuracy > LOW_ACCURACY_METERS) {
+        const result = await reverseGeocodeAction(lat, lng)
+        if (result.isSuccess) {
+          address = t("common.near", { place: result.data.label })
+        }
+
+        toast.warning(t("geolocation.rough", { accuracy }))
+      } else {
+        const result = await reverseGeocodeAddressAction(lat, lng)
+        if (result.isSuccess) address = result.data.display_name
+      }
+
+      updateOrigin(0, { address, point: { lat, lng }, locationId: "" })
+    } catch (error) {
+      console.error("Error getting current location:", error)
+      toast.error(
+        error instanceof GeolocationPositionError
+          ? getGeolocationErrorMessage(error, t)
+          : t("geolocation.failed")
+      )
+    } finally {
+      setIsLocating(false)
+    }
+  }
+
+  // Saves the search and hands the origins on. Every origin has been located
+  // by now.
+  const findMidpoint = async (located: OriginFormState[]) => {
+    const geocodedOrigins: Origin[] = located.map(origin => ({
+      address: origin.address,
+      lat: origin.point!.lat,
+      lng: origin.point!.lng,
+      travelMode: origin.travelMode,
+      weight: origin.weight,
+      geocodedBy: origin.point!.geocodedBy
+    }))
+
+    // Save locations if requested
+    if (isSignedIn) {
+      for (let i = 0; i < located.length; i++) {
+        const { saveLocation, locationName } = located[i]
+        if (!saveLocation || !locationName) continue
+
+        await createLocationAction({
+          userId: user.id,
+          name: locationName,
+          address: geocodedOrigins[i].address,
+          latitude: geocodedOrigins[i].lat,
+          longitude: geocodedOrigins[i].lng
+        })
+      }
+    }
+
+    // Create search record if user is signed in. The start/end columns keep
+    // the first and last origin so older views of a search still work.
+    let searchId: string | undefined
+
+    if (isSignedIn) {
+      const first = geocodedOrigins[0]
+      const last = geocodedOrigins[geocodedOrigins.length - 1]
+
+      const searchResult = await createSearchAction({
+        userId: user.id,
+        startLocationAddress: first.address,
+        startLocationLat: first.lat,
+        startLocationLng: first.lng,
+        endLocationAddress: last.address,
+        endLocationLat: last.lat,
+        endLocationLng: last.lng,
+        midpointLat: "0", // Will be updated in the results page
+        midpointLng: "0", // Will be updated in the results page
+        travelMode,
+        objective,
+        avoid
+      })
+
+      if (searchResult.isSuccess) {
+        searchId = searchResult.data.id
+        await createParticipantsAction(
+          geocodedOrigins.map((origin, position) => ({
+            searchId: searchResult.data.id,
+            position,
+            address: origin.address,
+            latitude: origin.lat,
+            longitude: origin.lng,
+            travelMode: origin.travelMode,
+            weight: origin.weight ?? DEFAULT_WEIGHT
+          }))
+        )
+      }
     }
+
+    // Call onFindMidpoint with the data
+    onFindMidpoint({
+      origins: geocodedOrigins,
+      travelMode,
+      objective,
+      avoid,
+      searchId
+    })
   }
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
 
-    if (!startAddress || !endAddress) {
-      toast.error("Please enter both start and end addresses")
+    if (origins.some(origin => !origin.address)) {
+      toast.error(t("form.missingAddress"))
       return
     }
 
     setIsLoading(true)
 
     try {
-      // Geocode start location
-      const startResult = await geocodeLocationAction(startAddress)
-      if (!startResult.isSuccess) {
-        toast.error(`Start address: ${startResult.message}`)
-        setIsLoading(false)
-        return
-      }
+      // Geocode every origin in order, unless it was picked from the
+      // suggestions and is already located. Addresses matching several
+      // places equally well wait for the user to pick one.
+      const located = [...origins]
+      const choices: PendingChoice[] = []
 
-      // Geocode end location
-      const endResult = await geocodeLocationAction(endAddress)
-      if (!endResult.isSuccess) {
-        toast.error(`End address: ${endResult.message}`)
-        setIsLoading(false)
-        return
-      }
+      for (let i = 0; i < located.length; i++) {
+        if (located[i].point) continue
 
-      // Save locations if requested
-      if (isSignedIn && saveStartLocation && startLocationName) {
-        const newLocation = {
-          userId: user.id,
-          name: startLocationName,
-          address: startAddress,
-          latitude: startResult.data.lat,
-          longitude: startResult.data.lon
+        const result = await geocodeLocationAction(located[i].address)
+        if (!result.isSuccess) {
+          toast.error(
+            t("form.locationError", {
+              label: getOriginLabel(i),
+              message: result.message
+            })
+          )
+          return
         }
 
-        await createLocationAction(newLocation)
-      }
-
-      if (isSignedIn && saveEndLocation && endLocationName) {
-        const newLocation = {
-          userId: user.id,
-          name: endLocationName,
-          address: endAddress,
-          latitude: endResult.data.lat,
-          longitude: endResult.data.lon
+        const { candidates, ambiguous, parsed } = result.data
+        if (ambiguous) {
+          choices.push({ index: i, candidates })
+          continue
         }
 
-        await createLocationAction(newLocation)
+        // Coordinates and map links are swapped for the name of the place
+        // they point at
+        located[i] = {
+          ...located[i],
+          ...(parsed ? { address: candidates[0].display_name } : {}),
+          point: getCandidatePoint(candidates[0])
+        }
       }
 
-      // Create search record if user is signed in
-      if (isSignedIn) {
-        await createSearchAction({
-          userId: user.id,
-          startLocationAddress: startAddress,
-          startLocationLat: startResult.data.lat,
-          startLocationLng: startResult.data.lon,
-          endLocationAddress: endAddress,
-          endLocationLat: endResult.data.lat,
-          endLocationLng: endResult.data.lon,
-          midpointLat: "0", // Will be updated in the results page
-          midpointLng: "0" // Will be updated in the results page
-        })
+      setOrigins(located)
+
+      if (choices.length > 0) {
+        setPendingChoices(choices)
+        return
       }
 
-      // Call onFindMidpoint with the data
-      onFindMidpoint({
-        startLat: startResult.data.lat,
-        startLng: startResult.data.lon,
-        startAddress: startAddress,
-        endLat: endResult.data.lat,
-        endLng: endResult.data.lon,
-        endAddress: endAddress
-      })
+      await findMidpoint(located)
     } catch (error) {
       console.error("Error processing form:", error)
-      toast.error("An error occurred while processing your request")
+      toast.error(t("form.requestFailed"))
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  // Uses the picked place for the first origin waiting on a choice, taking
+  // its full name as the address so the search records which place was
+  // meant. The search carries on once every choice is made.
+  const handleCandidateSelect = async (candidate: GeocodingResult) => {
+    const [choice, ...remaining] = pendingChoices
+    const located = origins.map((origin, i) =>
+      i === choice.index
+        ? {
+            ...origin,
+            address: candidate.display_name,
+            point: getCandidatePoint(candidate)
+          }
+        : origin
+    )
+
+    setOrigins(located)
+    setPendingChoices(remaining)
+    if (remaining.length > 0) return
+
+    setIsLoading(true)
+
+    try {
+      await findMidpoint(located)
+    } catch (error) {
+      console.error("Error processing form:", error)
+      toast.error(t("form.requestFailed"))
     } finally {
       setIsLoading(false)
     }
@@ -170,129 +426,267 @@ export default function MeetMeHalfwayForm({
   return (
     <Card>
       <CardHeader>
-        <CardTitle>Find a Midpoint</CardTitle>
+        <CardTitle>{t("form.title")}</CardTitle>
       </CardHeader>
       <CardContent>
         <form onSubmit={handleSubmit} className="space-y-6">
-          <div className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="startLocation">Start Location</Label>
-              {locations.length > 0 && (
-                <Select
-                  value={startLocationId}
-                  onValueChange={handleStartLocationSelect}
+          <div className="space-y-2">
+            <Label>{t("form.travelMode")}</Label>
+            <p className="text-muted-foreground text-sm">
+              {t("form.travelModeHint")}
+            </p>
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              className="justify-start"
+              value={travelMode}
+              onValueChange={value => {
+                if (isTravelMode(value)) handleTravelModeChange(value)
+              }}
+            >
+              {TRAVEL_MODES.map(mode => (
+                <ToggleGroupItem
+                  key={mode}
+                  value={mode}
+                  className="flex items-center gap-2"
                 >
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select a saved location or enter custom" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="custom">
-                      Enter custom location
-                    </SelectItem>
-                    {locations.map(location => (
-                      <SelectItem key={location.id} value={location.id}>
-                        {location.name}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              )}
-              <div className="flex gap-2">
-                <Input
-                  id="startLocation"
-                  placeholder="Enter start address"
-                  value={startAddress}
-                  onChange={e => setStartAddress(e.target.value)}
-                  required
-                />
-                {isSignedIn && (
-                  <Button
-                    type="button"
-                    variant="outline"
-                    onClick={() => setSaveStartLocation(!saveStartLocation)}
-                    className={saveStartLocation ? "bg-primary/10" : ""}
+                  <TravelModeIcon mode={mode} className="size-4" />
+                  {t(`travelMode.${mode}`)}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="objective">{t("form.meetingPoint")}</Label>
+            <Select
+              value={objective}
+              onValueChange={value => {
+                if (isMeetingObjective(value)) setObjective(value)
+              }}
+            >
+              <SelectTrigger id="objective">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {MEETING_OBJECTIVES.map(option => (
+                  <SelectItem key={option} value={option}>
+                    {t(`objective.${option}`)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-muted-foreground text-sm">
+              {t(`objectiveDescription.${objective}`)}
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>{t("form.avoid")}</Label>
+            <ToggleGroup
+              type="multiple"
+              variant="outline"
+              className="justify-start"
+              value={avoid}
+              onValueChange={values =>
+                setAvoid(values.filter(isRouteAvoidance))
+              }
+            >
+              {ROUTE_AVOIDANCES.map(avoidance => (
+                <ToggleGroupItem key={avoidance} value={avoidance}>
+                  {t(`avoidance.${avoidance}`)}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
+
+          <div className="space-y-4">
+            {origins.map((origin, index) => (
+              <div key={index} className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor={`location-${index}`}>
+                    {t("form.location", { label: getOriginLabel(index) })}
+                  </Label>
+                  <div className="flex items-center gap-1">
+                    <ToggleGroup
+                      type="single"
+                      size="sm"
+                      value={origin.travelMode}
+                      onValueChange={value => {
+                        if (isTravelMode(value)) {
+                          updateOrigin(index, { travelMode: value })
+                        }
+                      }}
+                      aria-label={t("form.travelModeFor", {
+                        label: getOriginLabel(index)
+                      })}
+                    >
+                      {TRAVEL_MODES.map(mode => (
+                        <ToggleGroupItem
+                          key={mode}
+                          value={mode}
+                          title={t(`travelMode.${mode}`)}
+                          aria-label={t(`travelMode.${mode}`)}
+                        >
+                          <TravelModeIcon mode={mode} className="size-4" />
+                        </ToggleGroupItem>
+                      ))}
+                    </ToggleGroup>
+                    {origins.length > MIN_PARTICIPANTS && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleRemoveOrigin(index)}
+                      >
+                        <X className="size-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                {locations.length > 0 && (
+                  <Select
+                    value={origin.locationId}
+                    onValueChange={value => handleLocationSelect(index, value)}
                   >
-                    <MapPin className="mr-2 size-4" />
-                    Save
-                  </Button>
-                )}
-              </div>
-              {saveStartLocation && (
-                <Input
-                  placeholder="Location name (e.g. Home, Work)"
-                  value={startLocationName}
-                  onChange={e => setStartLocationName(e.target.value)}
-                  className="mt-2"
-                  required={saveStartLocation}
-                />
-              )}
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="endLocation">End Location</Label>
-              {locations.length > 0 && (
-                <Select
-                  value={endLocationId}
-                  onValueChange={handleEndLocationSelect}
-                >
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select a saved location or enter custom" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="custom">
-                      Enter custom location
-                    </SelectItem>
-                    {locations.map(location => (
-                      <SelectItem key={location.id} value={location.id}>
-                        {location.name}
+                    <SelectTrigger>
+                      <SelectValue
+                        placeholder={t("form.savedLocationPlaceholder")}
+                      />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="custom">
+                        {t("form.customLocation")}
                       </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              )}
-              <div className="flex gap-2">
-                <Input
-                  id="endLocation"
-                  placeholder="Enter end address"
-                  value={endAddress}
-                  onChange={e => setEndAddress(e.target.value)}
-                  required
-                />
-                {isSignedIn && (
-                  <Button
-                    type="button"
-                    variant="outline"
-                    onClick={() => setSaveEndLocation(!saveEndLocation)}
-                    className={saveEndLocation ? "bg-primary/10" : ""}
+                      {locations.map(location => (
+                        <SelectItem key={location.id} value={location.id}>
+                          {location.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                <div className="flex gap-2">
+                  <AddressAutocomplete
+                    id={`location-${index}`}
+                    value={origin.address}
+                    onChange={address =>
+                      updateOrigin(index, { address, point: null })
+                    }
+                    onSelect={selection =>
+                      handleAddressSelect(index, selection)
+                    }
+                    locations={locations}
+                    required
+                  />
+                  {index === 0 && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="icon"
+                      className="shrink-0"
+                      onClick={handleUseMyLocation}
+                      disabled={isLocating}
+                      title={t("form.useMyLocation")}
+                      aria-label={t("form.useMyLocation")}
+                    >
+                      {isLocating ? (
+                        <Loader2 className="size-4 animate-spin" />
+                      ) : (
+                        <LocateFixed className="size-4" />
+                      )}
+                    </Button>
+                  )}
+                  {isSignedIn && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={() =>
+                        updateOrigin(index, {
+                          saveLocation: !origin.saveLocation
+                        })
+                      }
+                      className={origin.saveLocation ? "bg-primary/10" : ""}
+                    >
+                      <MapPin className="mr-2 size-4" />
+                      {t("form.save")}
+                    </Button>
+                  )}
+                </div>
+                <div className="flex items-center gap-3">
+                  <Label
+                    htmlFor={`weight-${index}`}
+                    className="text-muted-foreground w-36 shrink-0 text-sm font-normal"
                   >
-                    <MapPin className="mr-2 size-4" />
-                    Save
-                  </Button>
+                    {t("form.shareOfTravel", {
+                      percent: Math.round(travelShares[index] * 100)
+                    })}
+                  </Label>
+                  <Slider
+                    id={`weight-${index}`}
+                    min={MIN_WEIGHT}
+                    max={MAX_WEIGHT}
+                    step={5}
+                    value={[origin.weight]}
+                    onValueChange={([weight]) =>
+                      updateOrigin(index, { weight })
+                    }
+                    aria-label={t("form.shareOfTravelFor", {
+                      label: getOriginLabel(index)
+                    })}
+                  />
+                </div>
+                {origin.saveLocation && (
+                  <Input
+                    placeholder={t("form.locationNamePlaceholder")}
+                    value={origin.locationName}
+                    onChange={e =>
+                      updateOrigin(index, { locationName: e.target.value })
+                    }
+                    className="mt-2"
+                    required={origin.saveLocation}
+                  />
                 )}
               </div>
-              {saveEndLocation && (
-                <Input
-                  placeholder="Location name (e.g. Friend's House, Office)"
-                  value={endLocationName}
-                  onChange={e => setEndLocationName(e.target.value)}
-                  className="mt-2"
-                  required={saveEndLocation}
-                />
-              )}
-            </div>
+            ))}
+
+            {origins.length < MAX_PARTICIPANTS && (
+              <Button
+                type="button"
+                variant="outline"
+                className="w-full"
+                onClick={handleAddOrigin}
+              >
+                <Plus className="mr-2 size-4" />
+                {t("form.addLocation")}
+              </Button>
+            )}
           </div>
 
           <Button type="submit" className="w-full" disabled={isLoading}>
             {isLoading ? (
               <>
                 <Loader2 className="mr-2 size-4 animate-spin" />
-                Finding Midpoint...
+                {t("form.submitting")}
               </>
             ) : (
-              "Find Midpoint"
+              t("form.submit")
             )}
           </Button>
         </form>
+
+        {pendingChoices.length > 0 && (
+          <LocationPickerDialog
+            key={pendingChoices[0].index}
+            label={t("form.location", {
+              label: getOriginLabel(pendingChoices[0].index)
+            })}
+            query={origins[pendingChoices[0].index].address}
+            candidates={pendingChoices[0].candidates}
+            onSelect={handleCandidateSelect}
+            onCancel={() => setPendingChoices([])}
+          />
+        )}
       </CardContent>
     </Card>
   )
@@ -8,6 +8,7 @@ import { Trash2, ArrowRight } from "lucide-react"
 import { deleteSearchAction } from "@/actions/db/searches-actions"
 import { toast } from "sonner"
 import { useRouter } from "next/navigation"
+import { useI18n } from "@/components/utilities/i18n-provider"
 
 interface RecentSearchesProps {
   searches: Search[]
@@ -16,15 +17,16 @@ interface RecentSearchesProps {
 export default function RecentSearches({ searches }: RecentSearchesProps) {
   const [recentSearches, setRecentSearches] = useState<Search[]>(searches)
   const router = useRouter()
+  const { locale, t } = useI18n()
 
   const handleDelete = async (id: string) => {
     const result = await deleteSearchAction(id)
 
     if (result.isSuccess) {
       setRecentSearches(recentSearches.filter(search => search.id !== id))
-      toast.success(result.message)
+      toast.success(t("savedSearches.deleted"))
     } else {
-      toast.error(result.message)
+      toast.error(t("savedSearches.deleteError", { message: result.message }))
     }
   }
 
@@ -35,12 +37,12 @@ export default function RecentSearches({ searches }: RecentSearchesProps) {
   return (
     <Card>
       <CardHeader>
-        <CardTitle>Recent Searches</CardTitle>
+        <CardTitle>{t("recentSearches.title")}</CardTitle>
       </CardHeader>
       <CardContent>
         {recentSearches.length === 0 ? (
           <p className="text-muted-foreground text-sm">
-            No recent searches yet.
+            {t("recentSearches.empty")}
           </p>
         ) : (
           <div className="space-y-2">
@@ -48,7 +50,7 @@ export default function RecentSearches({ searches }: RecentSearchesProps) {
               <div key={search.id} className="hover:bg-accent rounded-md p-2">
                 <div className="mb-1 flex items-center justify-between">
                   <p className="text-sm font-medium">
-                    {new Date(search.createdAt).toLocaleDateString()}
+                    {new Date(search.createdAt).toLocaleDateString(locale)}
                   </p>
                   <div className="flex space-x-1">
                     <Button
@@ -76,6 +78,13 @@ export default function RecentSearches({ searches }: RecentSearchesProps) {
                     {search.endLocationAddress}
                   </p>
                 </div>
+                {search.midpointName && (
+                  <p className="text-muted-foreground truncate text-xs">
+                    {t("recentSearches.metNear", {
+                      place: search.midpointName
+                    })}
+                  </p>
+                )}
               </div>
             ))}
           </div>
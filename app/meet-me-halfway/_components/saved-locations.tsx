@@ -7,6 +7,7 @@ import { Button } from "@/components/ui/button"
 import { Trash2 } from "lucide-react"
 import { deleteLocationAction } from "@/actions/db/locations-actions"
 import { toast } from "sonner"
+import { useI18n } from "@/components/utilities/i18n-provider"
 
 interface SavedLocationsProps {
   locations: Location[]
@@ -14,27 +15,28 @@ interface SavedLocationsProps {
 
 export default function SavedLocations({ locations }: SavedLocationsProps) {
   const [savedLocations, setSavedLocations] = useState<Location[]>(locations)
+  const { t } = useI18n()
 
   const handleDelete = async (id: string) => {
     const result = await deleteLocationAction(id)
 
     if (result.isSuccess) {
       setSavedLocations(savedLocations.filter(location => location.id !== id))
-      toast.success(result.message)
+      toast.success(t("savedLocations.deleted"))
     } else {
-      toast.error(result.message)
+      toast.error(t("savedLocations.deleteError", { message: result.message }))
     }
   }
 
   return (
     <Card>
       <CardHeader>
-        <CardTitle>Saved Locations</CardTitle>
+        <CardTitle>{t("savedLocations.title")}</CardTitle>
       </CardHeader>
       <CardContent>
         {savedLocations.length === 0 ? (
           <p className="text-muted-foreground text-sm">
-            No saved locations yet.
+            {t("savedLocations.empty")}
           </p>
         ) : (
           <div className="space-y-2">
@@ -7,11 +7,16 @@ import ResultsMap from "../_components/results-map"
 import ResultsSkeleton from "../_components/results-skeleton"
 import PointsOfInterest from "../_components/points-of-interest"
 import {
-  calculateMidpointAction,
+  calculateMultiMidpointAction,
   searchPoisAction
 } from "@/actions/locationiq-actions"
 import { getSearchAction } from "@/actions/db/searches-actions"
 import { getPoisBySearchAction } from "@/actions/db/pois-actions"
+import { getParticipantsBySearchAction } from "@/actions/db/participants-actions"
+import { SelectSearch } from "@/db/schema"
+import { Origin } from "@/types"
+import { parseRouteIndex } from "@/lib/routes"
+import { getTranslator } from "@/lib/i18n/server"
 
 interface SearchResultsPageProps {
   params: {
@@ -38,10 +43,12 @@ export default async function SearchResultsPage({
     redirect("/login")
   }
 
+  const t = await getTranslator()
+
   return (
     <div className="container mx-auto px-4 py-8">
       <h1 className="mb-8 text-center text-3xl font-bold">
-        Meet Me Halfway Results
+        {t("results.title")}
       </h1>
 
       <div className="w-full">
@@ -63,64 +70,36 @@ async function ResultsMapFetcher({
   searchId: string
   searchParams: SearchResultsPageProps["searchParams"]
 }) {
+  const t = await getTranslator()
+
   // Get the search from the database
   const searchResult = await getSearchAction(searchId)
 
   if (!searchResult.isSuccess) {
     return (
       <div className="rounded-lg border p-8 text-center">
-        <h2 className="mb-2 text-xl font-semibold">Error Finding Search</h2>
+        <h2 className="mb-2 text-xl font-semibold">
+          {t("results.searchError")}
+        </h2>
         <p className="text-muted-foreground">{searchResult.message}</p>
       </div>
     )
   }
 
   const search = searchResult.data
+  const origins = await getSearchOrigins(search, searchParams)
+  const selectedRouteIndex = parseRouteIndex(searchParams.selectedRoute)
 
-  // Use query params if provided, otherwise use search data
-  const startLat = searchParams.startLat || search.startLocationLat
-  const startLng = searchParams.startLng || search.startLocationLng
-  const startAddress = searchParams.startAddress || search.startLocationAddress
-  const endLat = searchParams.endLat || search.endLocationLat
-  const endLng = searchParams.endLng || search.endLocationLng
-  const endAddress = searchParams.endAddress || search.endLocationAddress
-  const selectedRoute = searchParams.selectedRoute || "main"
-
-  // Calculate midpoint if not already calculated
-  let midpointLat = search.midpointLat
-  let midpointLng = search.midpointLng
-
-  if (midpointLat === "0" && midpointLng === "0") {
-    const midpointResult = await calculateMidpointAction(
-      startLat,
-      startLng,
-      endLat,
-      endLng
-    )
-
-    if (!midpointResult.isSuccess) {
-      return (
-        <div className="rounded-lg border p-8 text-center">
-          <h2 className="mb-2 text-xl font-semibold">Error Finding Midpoint</h2>
-          <p className="text-muted-foreground">{midpointResult.message}</p>
-        </div>
-      )
-    }
-
-    midpointLat = midpointResult.data.lat
-    midpointLng = midpointResult.data.lon
-  }
-
+  // The map works out the meeting point itself, along with its routes
   return (
     <ResultsMap
-      startLat={startLat}
-      startLng={startLng}
-      startAddress={startAddress}
-      endLat={endLat}
-      endLng={endLng}
-      endAddress={endAddress}
-      selectedRoute={selectedRoute as "main" | "alternate"}
+      origins={origins}
+      travelMode={search.travelMode}
+      objective={search.objective}
+      avoid={search.avoid}
+      selectedRouteIndex={selectedRouteIndex}
       onRouteSelect={() => {}}
+      searchId={search.id}
     />
   )
 }
@@ -132,25 +111,24 @@ async function PointsOfInterestFetcher({
   searchId: string
   searchParams: SearchResultsPageProps["searchParams"]
 }) {
+  const t = await getTranslator()
+
   // Get the search from the database
   const searchResult = await getSearchAction(searchId)
 
   if (!searchResult.isSuccess) {
     return (
       <div className="rounded-lg border p-8 text-center">
-        <h2 className="mb-2 text-xl font-semibold">Error Finding Search</h2>
+        <h2 className="mb-2 text-xl font-semibold">
+          {t("results.searchError")}
+        </h2>
         <p className="text-muted-foreground">{searchResult.message}</p>
       </div>
     )
   }
 
   const search = searchResult.data
-
-  // Use query params if provided, otherwise use search data
-  const startLat = searchParams.startLat || search.startLocationLat
-  const startLng = searchParams.startLng || search.startLocationLng
-  const endLat = searchParams.endLat || search.endLocationLat
-  const endLng = searchParams.endLng || search.endLocationLng
+  const origins = await getSearchOrigins(search, searchParams)
 
   // Check if we already have POIs for this search
   const poisResult = await getPoisBySearchAction(searchId)
@@ -174,10 +152,12 @@ async function PointsOfInterestFetcher({
     return (
       <PointsOfInterest
         pois={formattedPois}
-        startLat={startLat}
-        startLng={startLng}
-        endLat={endLat}
-        endLng={endLng}
+        origins={origins}
+        travelMode={search.travelMode}
+        objective={search.objective}
+        avoid={search.avoid}
+        midpointLat={parseFloat(search.midpointLat)}
+        midpointLng={parseFloat(search.midpointLng)}
       />
     )
   }
@@ -187,18 +167,18 @@ async function PointsOfInterestFetcher({
   let midpointLng = search.midpointLng
 
   if (midpointLat === "0" && midpointLng === "0") {
-    const midpointResult = await calculateMidpointAction(
-      startLat,
-      startLng,
-      endLat,
-      endLng
+    const midpointResult = await calculateMultiMidpointAction(
+      origins,
+      search.travelMode,
+      search.objective,
+      search.avoid
     )
 
     if (!midpointResult.isSuccess) {
       return (
         <div className="rounded-lg border p-8 text-center">
           <h2 className="mb-2 text-xl font-semibold">
-            Error Finding Points of Interest
+            {t("results.poiError")}
           </h2>
           <p className="text-muted-foreground">{midpointResult.message}</p>
         </div>
@@ -215,9 +195,7 @@ async function PointsOfInterestFetcher({
   if (!poisSearchResult.isSuccess) {
     return (
       <div className="rounded-lg border p-8 text-center">
-        <h2 className="mb-2 text-xl font-semibold">
-          No Points of Interest Found
-        </h2>
+        <h2 className="mb-2 text-xl font-semibold">{t("results.noPois")}</h2>
         <p className="text-muted-foreground">{poisSearchResult.message}</p>
       </div>
     )
@@ -225,11 +203,46 @@ async function PointsOfInterestFetcher({
 
   return (
     <PointsOfInterest
-      pois={poisSearchResult.data}
-      startLat={startLat}
-      startLng={startLng}
-      endLat={endLat}
-      endLng={endLng}
+      pois={poisSearchResult.data.pois}
+      origins={origins}
+      travelMode={search.travelMode}
+      objective={search.objective}
+      avoid={search.avoid}
+      midpointLat={parseFloat(midpointLat)}
+      midpointLng={parseFloat(midpointLng)}
     />
   )
 }
+
+// Loads the origins for a search from its participants. Searches saved before
+// participants existed fall back to the start/end columns, which can also be
+// overridden through query params.
+async function getSearchOrigins(
+  search: SelectSearch,
+  searchParams: SearchResultsPageProps["searchParams"]
+): Promise<Origin[]> {
+  const participantsResult = await getParticipantsBySearchAction(search.id)
+
+  if (participantsResult.isSuccess && participantsResult.data.length >= 2) {
+    return participantsResult.data.map(participant => ({
+      address: participant.address,
+      lat: participant.latitude,
+      lng: participant.longitude,
+      travelMode: participant.travelMode,
+      weight: participant.weight
+    }))
+  }
+
+  return [
+    {
+      address: searchParams.startAddress || search.startLocationAddress,
+      lat: searchParams.startLat || search.startLocationLat,
+      lng: searchParams.startLng || search.startLocationLng
+    },
+    {
+      address: searchParams.endAddress || search.endLocationAddress,
+      lat: searchParams.endLat || search.endLocationLat,
+      lng: searchParams.endLng || search.endLocationLng
+    }
+  ]
+}
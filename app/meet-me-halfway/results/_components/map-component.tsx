@@ -3,6 +3,7 @@
 import { useEffect, useRef, useState } from "react"
 import L from "leaflet"
 import {
+  Circle,
   MapContainer,
   TileLayer,
   Polyline,
@@ -10,6 +11,10 @@ import {
   useMap,
   Popup
 } from "react-leaflet"
+import { GeocodingProviderName } from "@/types"
+import { getOriginLabel } from "@/lib/participants"
+import { getRouteColors, getRouteLabel } from "@/lib/routes"
+import { useI18n } from "@/components/utilities/i18n-provider"
 
 // Initialize Leaflet icons
 if (typeof window !== "undefined") {
@@ -41,6 +46,20 @@ const createIcons = () => ({
     iconAnchor: [12, 41],
     popupAnchor: [1, -34]
   }),
+  distanceMidpointIcon: new L.Icon({
+    iconUrl: "/midpoint-marker.png",
+    iconSize: [25, 41],
+    iconAnchor: [12, 41],
+    popupAnchor: [1, -34],
+    className: "opacity-50"
+  }),
+  snappedMidpointIcon: new L.Icon({
+    iconUrl: "/midpoint-marker.png",
+    iconSize: [30, 49],
+    iconAnchor: [15, 49],
+    popupAnchor: [1, -41],
+    className: "hue-rotate-180"
+  }),
   poiIcon: new L.Icon({
     iconUrl: "/poi-marker.png",
     iconSize: [25, 41],
@@ -50,61 +69,81 @@ const createIcons = () => ({
 })
 
 interface MapComponentProps {
-  startLat: number
-  startLng: number
-  endLat: number
-  endLng: number
-  startAddress: string
-  endAddress: string
+  origins: {
+    lat: number
+    lng: number
+    address: string
+    geocodedBy?: GeocodingProviderName
+  }[]
   midpointLat: number
   midpointLng: number
-  alternateMidpointLat: number
-  alternateMidpointLng: number
-  mainRoute: any
-  alternateRoute: any
-  showAlternateRoute: boolean
-  selectedRoute: "main" | "alternate"
-  onRouteSelect: (route: "main" | "alternate") => void
+  // Place the meeting point lies in, e.g. "Princeton, NJ"
+  midpointName?: string
+  distanceMidpointLat?: number
+  distanceMidpointLng?: number
+  // Place the midpoint was moved to so there is somewhere to meet
+  snappedPoint?: { lat: number; lng: number; name?: string }
+  // Routes between two people, best first, with each route's midpoint
+  routes: any[]
+  routeMidpoints: ({ lat: number; lng: number } | null)[]
+  originRoutes: any[]
+  showAlternateRoutes: boolean
+  selectedRouteIndex: number
+  onRouteSelect: (routeIndex: number) => void
   pois: any[]
   showPois: boolean
+  // Circle searched for the POIs shown, radius in meters
+  poiSearchCenter?: { lat: number; lng: number }
+  poiSearchRadius?: number
+  // Line searched along instead of a circle, reaching the radius either side
+  poiSearchCorridor?: { lat: number; lng: number }[]
 }
 
 // Component to fit bounds when route changes
-function FitBounds({ route }: { route: any }) {
+function FitBounds({
+  route,
+  points
+}: {
+  route: any
+  points: { lat: number; lng: number }[]
+}) {
   const map = useMap()
 
   useEffect(() => {
-    if (!route) return
-
     const bounds = L.latLngBounds([])
-    route.geometry.coordinates.forEach((coord: [number, number]) => {
+    route?.geometry.coordinates.forEach((coord: [number, number]) => {
       bounds.extend([coord[1], coord[0]])
     })
+    points.forEach(point => bounds.extend([point.lat, point.lng]))
+
+    if (!bounds.isValid()) return
     map.fitBounds(bounds, { padding: [50, 50] })
-  }, [map, route])
+  }, [map, route, points.length])
 
   return null
 }
 
 export default function MapComponent({
-  startLat,
-  startLng,
-  endLat,
-  endLng,
-  startAddress,
-  endAddress,
+  origins,
   midpointLat,
   midpointLng,
-  alternateMidpointLat,
-  alternateMidpointLng,
-  mainRoute,
-  alternateRoute,
-  showAlternateRoute,
-  selectedRoute,
+  midpointName,
+  distanceMidpointLat,
+  distanceMidpointLng,
+  snappedPoint,
+  routes,
+  routeMidpoints,
+  originRoutes,
+  showAlternateRoutes,
+  selectedRouteIndex,
   onRouteSelect,
   pois,
-  showPois
+  showPois,
+  poiSearchCenter,
+  poiSearchRadius,
+  poiSearchCorridor
 }: MapComponentProps) {
+  const { t } = useI18n()
   const [icons, setIcons] = useState<ReturnType<typeof createIcons> | null>(
     null
   )
@@ -114,22 +153,30 @@ export default function MapComponent({
   }, [])
 
   // Convert GeoJSON coordinates to LatLng arrays for Polyline
-  const mainRouteCoords =
-    mainRoute?.geometry?.coordinates?.map((coord: [number, number]) => [
-      coord[1],
-      coord[0]
-    ]) || []
-
-  const alternateRouteCoords =
-    alternateRoute?.geometry?.coordinates?.map((coord: [number, number]) => [
-      coord[1],
-      coord[0]
-    ]) || []
+  const routeCoords = routes.map(
+    route =>
+      route?.geometry?.coordinates?.map((coord: [number, number]) => [
+        coord[1],
+        coord[0]
+      ]) || []
+  )
+
+  // Alternatives can be hidden, but the selected route is always shown
+  const isRouteVisible = (index: number) =>
+    index === selectedRouteIndex || showAlternateRoutes
+
+  const originRouteCoords = originRoutes.map(
+    route =>
+      route?.geometry?.coordinates?.map((coord: [number, number]) => [
+        coord[1],
+        coord[0]
+      ]) || []
+  )
 
   if (!icons) {
     return (
       <div className="flex size-full items-center justify-center rounded-lg bg-gray-100">
-        <div className="text-gray-500">Loading map...</div>
+        <div className="text-gray-500">{t("results.loadingMap")}</div>
       </div>
     )
   }
@@ -145,76 +192,187 @@ export default function MapComponent({
         url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
       />
 
-      {/* Main Route */}
-      {mainRouteCoords.length > 0 && (
-        <Polyline
-          positions={mainRouteCoords}
-          pathOptions={{
-            color: selectedRoute === "main" ? "#3b82f6" : "#93c5fd",
-            weight: selectedRoute === "main" ? 6 : 4
-          }}
-          eventHandlers={{
-            click: () => onRouteSelect("main")
-          }}
-        />
-      )}
+      {/* Routes between two people; the selected one is drawn last so it
+      stays on top */}
+      {routeCoords
+        .map((coords, index) => ({ coords, index }))
+        .sort(
+          (a, b) =>
+            Number(a.index === selectedRouteIndex) -
+            Number(b.index === selectedRouteIndex)
+        )
+        .map(
+          ({ coords, index }) =>
+            coords.length > 0 &&
+            isRouteVisible(index) && (
+              <Polyline
+                key={`route-${index}`}
+                positions={coords}
+                pathOptions={{
+                  color:
+                    index === selectedRouteIndex
+                      ? getRouteColors(index).selected
+                      : getRouteColors(index).unselected,
+                  weight: index === selectedRouteIndex ? 6 : 4
+                }}
+                eventHandlers={{
+                  click: () => onRouteSelect(index)
+                }}
+              />
+            )
+        )}
 
-      {/* Alternate Route */}
-      {alternateRouteCoords.length > 0 && showAlternateRoute && (
-        <Polyline
-          positions={alternateRouteCoords}
-          pathOptions={{
-            color: selectedRoute === "alternate" ? "#ef4444" : "#fca5a5",
-            weight: selectedRoute === "alternate" ? 6 : 4
-          }}
-          eventHandlers={{
-            click: () => onRouteSelect("alternate")
-          }}
-        />
+      {/* Routes from each origin to a group midpoint */}
+      {originRouteCoords.map(
+        (coords, index) =>
+          coords.length > 0 && (
+            <Polyline
+              key={`origin-route-${index}`}
+              positions={coords}
+              pathOptions={{ color: "#3b82f6", weight: 4 }}
+            />
+          )
       )}
 
-      {/* Start Marker */}
-      <Marker position={[startLat, startLng]} icon={icons.startIcon}>
-        <Popup>
-          <div className="font-medium">Start: {startAddress}</div>
-        </Popup>
-      </Marker>
-
-      {/* End Marker */}
-      <Marker position={[endLat, endLng]} icon={icons.endIcon}>
-        <Popup>
-          <div className="font-medium">End: {endAddress}</div>
-        </Popup>
-      </Marker>
-
-      {/* Main Midpoint Marker */}
-      <Marker
-        position={[midpointLat, midpointLng]}
-        icon={icons.midpointIcon}
-        eventHandlers={{
-          click: () => onRouteSelect("main")
-        }}
-      >
-        <Popup>
-          <div className="font-medium">Midpoint (Main Route)</div>
-        </Popup>
-      </Marker>
-
-      {/* Alternate Midpoint Marker */}
-      {showAlternateRoute && (
+      {/* Origin Markers */}
+      {origins.map((origin, index) => (
         <Marker
-          position={[alternateMidpointLat, alternateMidpointLng]}
-          icon={icons.midpointIcon}
-          eventHandlers={{
-            click: () => onRouteSelect("alternate")
-          }}
+          key={`origin-${index}`}
+          position={[origin.lat, origin.lng]}
+          icon={index === 0 ? icons.startIcon : icons.endIcon}
         >
           <Popup>
-            <div className="font-medium">Midpoint (Alternate Route)</div>
+            <div className="font-medium">
+              {getOriginLabel(index)}: {origin.address}
+            </div>
+            {origin.geocodedBy && (
+              <div className="text-muted-foreground text-xs">
+                {t("map.locatedWith", {
+                  provider: t(`geocodingProvider.${origin.geocodedBy}`)
+                })}
+              </div>
+            )}
+          </Popup>
+        </Marker>
+      ))}
+
+      {/* Midpoint of each route, or the group midpoint */}
+      {routes.length > 0 ? (
+        routeMidpoints.map(
+          (midpoint, index) =>
+            midpoint &&
+            isRouteVisible(index) && (
+              <Marker
+                key={`route-midpoint-${index}`}
+                position={[midpoint.lat, midpoint.lng]}
+                icon={icons.midpointIcon}
+                eventHandlers={{
+                  click: () => onRouteSelect(index)
+                }}
+              >
+                <Popup>
+                  <div className="font-medium">
+                    {t("map.routeMidpoint", {
+                      route: getRouteLabel(index, routes.length, t)
+                    })}
+                  </div>
+                </Popup>
+              </Marker>
+            )
+        )
+      ) : (
+        <Marker position={[midpointLat, midpointLng]} icon={icons.midpointIcon}>
+          <Popup>
+            <div className="font-medium">
+              {originRoutes.length > 0
+                ? t("map.groupMidpoint")
+                : t("map.midpoint")}
+            </div>
+            {midpointName && !snappedPoint && (
+              <div className="text-muted-foreground text-sm">
+                {t("common.near", { place: midpointName })}
+              </div>
+            )}
           </Popup>
         </Marker>
       )}
 
+      {/* Halfway-by-distance Marker, for comparison */}
+      {distanceMidpointLat !== undefined &&
+        distanceMidpointLng !== undefined && (
+          <Marker
+            position={[distanceMidpointLat, distanceMidpointLng]}
+            icon={icons.distanceMidpointIcon}
+          >
+            <Popup>
+              <div className="font-medium">{t("map.halfwayByDistance")}</div>
+              <div className="text-muted-foreground text-sm">
+                {t("map.halfwayByDistanceHint")}
+              </div>
+            </Popup>
+          </Marker>
+        )}
+
+      {/* Snapped meeting place, joined to the midpoint it was moved from */}
+      {snappedPoint && (
+        <>
+          <Polyline
+            positions={[
+              [midpointLat, midpointLng],
+              [snappedPoint.lat, snappedPoint.lng]
+            ]}
+            pathOptions={{ color: "#6b7280", weight: 2, dashArray: "4 6" }}
+          />
+          <Marker
+            position={[snappedPoint.lat, snappedPoint.lng]}
+            icon={icons.snappedMidpointIcon}
+          >
+            <Popup>
+              <div className="font-medium">
+                {snappedPoint.name
+                  ? t("map.meetingPlaceNamed", { name: snappedPoint.name })
+                  : t("map.meetingPlace")}
+              </div>
+              <div className="text-muted-foreground text-sm">
+                {midpointName &&
+                  `${t("map.meetingPlaceNear", { place: midpointName })} `}
+                {t("map.meetingPlaceHint")}
+              </div>
+            </Popup>
+          </Marker>
+        </>
+      )}
+
+      {/* Corridor searched for POIs along the route */}
+      {showPois && poiSearchCorridor && (
+        <Polyline
+          positions={poiSearchCorridor.map(point => [point.lat, point.lng])}
+          pathOptions={{
+            color: "#f59e0b",
+            weight: 16,
+            opacity: 0.25,
+            lineCap: "round"
+          }}
+        />
+      )}
+
+      {/* Circle searched for POIs */}
+      {showPois &&
+        !poiSearchCorridor &&
+        poiSearchCenter &&
+        poiSearchRadius !== undefined && (
+          <Circle
+            center={[poiSearchCenter.lat, poiSearchCenter.lng]}
+            radius={poiSearchRadius}
+            pathOptions={{
+              color: "#f59e0b",
+              weight: 1,
+              fillOpacity: 0.05,
+              dashArray: "4 4"
+            }}
+          />
+        )}
+
       {/* POI Markers */}
       {showPois &&
         pois.map((poi: any) => (
@@ -235,9 +393,7 @@ export default function MapComponent({
         ))}
 
       {/* Fit bounds to route */}
-      <FitBounds
-        route={selectedRoute === "main" ? mainRoute : alternateRoute}
-      />
+      <FitBounds route={routes[selectedRouteIndex]} points={origins} />
     </MapContainer>
   )
 }
@@ -3,66 +3,83 @@
 import { useEffect, useRef, useState } from "react"
 import dynamic from "next/dynamic"
 import "leaflet/dist/leaflet.css"
+import { GeocodingProviderName } from "@/types"
+import { useI18n } from "@/components/utilities/i18n-provider"
 
 interface MapProps {
-  startLat: number
-  startLng: number
-  endLat: number
-  endLng: number
-  startAddress: string
-  endAddress: string
+  origins: {
+    lat: number
+    lng: number
+    address: string
+    geocodedBy?: GeocodingProviderName
+  }[]
   midpointLat: number
   midpointLng: number
-  alternateMidpointLat: number
-  alternateMidpointLng: number
-  mainRoute: any
-  alternateRoute: any
-  showAlternateRoute: boolean
-  selectedRoute: "main" | "alternate"
-  onRouteSelect: (route: "main" | "alternate") => void
+  // Place the meeting point lies in, e.g. "Princeton, NJ"
+  midpointName?: string
+  distanceMidpointLat?: number
+  distanceMidpointLng?: number
+  // Place the midpoint was moved to so there is somewhere to meet
+  snappedPoint?: { lat: number; lng: number; name?: string }
+  // Routes between two people, best first, with each route's midpoint
+  routes: any[]
+  routeMidpoints: ({ lat: number; lng: number } | null)[]
+  originRoutes: any[]
+  showAlternateRoutes: boolean
+  selectedRouteIndex: number
+  onRouteSelect: (routeIndex: number) => void
   pois: any[]
   showPois: boolean
+  // Circle searched for the POIs shown, radius in meters
+  poiSearchCenter?: { lat: number; lng: number }
+  poiSearchRadius?: number
+  // Line searched along instead of a circle, reaching the radius either side
+  poiSearchCorridor?: { lat: number; lng: number }[]
 }
 
-const MapComponent = dynamic<MapProps>(() => import("./map-component"), {
-  ssr: false,
-  loading: () => (
+const MapLoading = () => {
+  const { t } = useI18n()
+
+  return (
     <div className="flex h-[520px] w-full items-center justify-center rounded-lg bg-gray-100">
-      <div className="text-gray-500">Loading map...</div>
+      <div className="text-gray-500">{t("results.loadingMap")}</div>
     </div>
   )
+}
+
+const MapComponent = dynamic<MapProps>(() => import("./map-component"), {
+  ssr: false,
+  loading: MapLoading
 })
 
 export default function Map(props: MapProps) {
   // Ensure all coordinates are valid numbers
-  const validStartLat = Number.isFinite(props.startLat) ? props.startLat : 0
-  const validStartLng = Number.isFinite(props.startLng) ? props.startLng : 0
-  const validEndLat = Number.isFinite(props.endLat) ? props.endLat : 0
-  const validEndLng = Number.isFinite(props.endLng) ? props.endLng : 0
+  const validOrigins = props.origins.map(origin => ({
+    ...origin,
+    lat: Number.isFinite(origin.lat) ? origin.lat : 0,
+    lng: Number.isFinite(origin.lng) ? origin.lng : 0
+  }))
+  const validStartLat = validOrigins[0]?.lat ?? 0
+  const validStartLng = validOrigins[0]?.lng ?? 0
   const validMidpointLat = Number.isFinite(props.midpointLat)
     ? props.midpointLat
     : validStartLat
   const validMidpointLng = Number.isFinite(props.midpointLng)
     ? props.midpointLng
     : validStartLng
-  const validAltMidpointLat = Number.isFinite(props.alternateMidpointLat)
-    ? props.alternateMidpointLat
-    : validMidpointLat
-  const validAltMidpointLng = Number.isFinite(props.alternateMidpointLng)
-    ? props.alternateMidpointLng
-    : validMidpointLng
+  const validRouteMidpoints = props.routeMidpoints.map(midpoint =>
+    midpoint && Number.isFinite(midpoint.lat) && Number.isFinite(midpoint.lng)
+      ? midpoint
+      : null
+  )
 
   return (
     <MapComponent
       {...props}
-      startLat={validStartLat}
-      startLng={validStartLng}
-      endLat={validEndLat}
-      endLng={validEndLng}
+      origins={validOrigins}
       midpointLat={validMidpointLat}
       midpointLng={validMidpointLng}
-      alternateMidpointLat={validAltMidpointLat}
-      alternateMidpointLng={validAltMidpointLng}
+      routeMidpoints={validRouteMidpoints}
     />
   )
 }
@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { Fragment, useState, useEffect } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Badge } from "@/components/ui/badge"
@@ -15,10 +15,24 @@ import {
 } from "@/components/ui/select"
 import { Checkbox } from "@/components/ui/checkbox"
 import { Label } from "@/components/ui/label"
+import {
+  DataQuality,
+  MeetingObjective,
+  Origin,
+  RouteAvoidance,
+  TravelMode
+} from "@/types"
 import { PoiResponse } from "@/types/poi-types"
-import { getRouteAction } from "@/actions/locationiq-actions"
+import { getOriginLabel, getOriginWeights } from "@/lib/participants"
+import { DEFAULT_TRAVEL_MODE, getOriginTravelModes } from "@/lib/travel-modes"
+import { DEFAULT_MEETING_OBJECTIVE } from "@/lib/objectives"
+import { formatDistance } from "@/lib/units"
+import TravelModeIcon from "@/components/travel-mode-icon"
+import DataQualityBadge from "@/components/data-quality-badge"
+import { useUnits } from "@/components/utilities/units-provider"
+import { useI18n } from "@/components/utilities/i18n-provider"
+import { getTravelTimeMatrixAction } from "@/actions/locationiq-actions"
 import {
-  Clock,
   MapPin,
   Coffee,
   Utensils,
@@ -43,48 +57,55 @@ import {
 
 interface PointsOfInterestProps {
   pois: PoiResponse[]
-  startLat: number
-  startLng: number
-  endLat: number
-  endLng: number
-  startAddress: string
-  endAddress: string
+  origins: Origin[]
+  travelMode?: TravelMode
+  // Sets the initial sort order to match how the meeting point was chosen
+  objective?: MeetingObjective
+  // Road features the trips to each place should avoid
+  avoid?: RouteAvoidance[]
   onPoiSelect?: (poiId: string) => void
-  selectedRoute: "main" | "alternate"
   midpointLat: number
   midpointLng: number
 }
 
 interface PoiWithTravelTimes extends PoiResponse {
   osm_id?: string
-  travelTimeFromStart?: number
-  travelTimeFromEnd?: number
-  distanceFromStart?: number
-  distanceFromEnd?: number
+  // Indexed by origin, in the same order as the origins prop
+  travelTimes?: (number | undefined)[]
+  distances?: (number | undefined)[]
   totalTravelTime?: number
+  longestTravelTime?: number
   travelTimeDifference?: number
+  // Combined extra travel time compared with meeting at the midpoint itself
+  detourTime?: number
   isFavorite?: boolean
 }
 
 type SortOption =
   | "name"
-  | "distanceFromStart"
-  | "distanceFromEnd"
+  | `distanceFrom:${number}`
   | "totalTime"
+  | "longestTime"
   | "timeDifference"
+  | "leastDetour"
 type FilterOption = "all" | "food" | "activities" | "lodging" | "other"
 type MaxTimeDifference = 5 | 10 | 15 | 30 | 999
 
+const OBJECTIVE_SORT_OPTIONS: Record<MeetingObjective, SortOption> = {
+  equalTime: "timeDifference",
+  totalTime: "totalTime",
+  longestTrip: "longestTime"
+}
+
+const NO_AVOIDANCES: RouteAvoidance[] = []
+
 export default function PointsOfInterest({
   pois,
-  startLat,
-  startLng,
-  endLat,
-  endLng,
-  startAddress,
-  endAddress,
+  origins,
+  travelMode = DEFAULT_TRAVEL_MODE,
+  objective = DEFAULT_MEETING_OBJECTIVE,
+  avoid = NO_AVOIDANCES,
   onPoiSelect,
-  selectedRoute,
   midpointLat,
   midpointLng
 }: PointsOfInterestProps) {
@@ -95,10 +116,18 @@ export default function PointsOfInterest({
   const [isLoading, setIsLoading] = useState(true)
   const [selectedPoi, setSelectedPoi] = useState<string | null>(null)
   const [favorites, setFavorites] = useState<string[]>([])
-  const [sortBy, setSortBy] = useState<SortOption>("totalTime")
+  const [sortBy, setSortBy] = useState<SortOption>(
+    OBJECTIVE_SORT_OPTIONS[objective]
+  )
   const [maxTimeDifference, setMaxTimeDifference] =
     useState<MaxTimeDifference>(15)
   const [showOnlyFavorites, setShowOnlyFavorites] = useState(false)
+  const [travelTimeQuality, setTravelTimeQuality] =
+    useState<DataQuality>("routed")
+  // Bumped to fetch the travel times again after they had to be estimated
+  const [retryCount, setRetryCount] = useState(0)
+  const { units } = useUnits()
+  const { t } = useI18n()
 
   // Load favorites from localStorage on component mount
   useEffect(() => {
@@ -121,93 +150,126 @@ export default function PointsOfInterest({
     }
   }, [favorites])
 
+  const originModes = getOriginTravelModes(origins, travelMode)
+  const weights = getOriginWeights(origins)
+
   // Calculate travel times for POIs
   useEffect(() => {
+    if (pois.length === 0) {
+      setPoisWithTravelTimes([])
+      setIsLoading(false)
+      return
+    }
+
+    let isCurrent = true
+
     const calculateTravelTimes = async () => {
       setIsLoading(true)
-      const targetLat = selectedRoute === "main" ? midpointLat : midpointLat
-      const targetLng = selectedRoute === "main" ? midpointLng : midpointLng
-
-      const updatedPois = await Promise.all(
-        pois.map(async poi => {
-          try {
-            // Get route from start to POI
-            const startRoute = await getRouteAction(
-              startLat.toString(),
-              startLng.toString(),
-              poi.lat,
-              poi.lon
-            )
-
-            // Get route from POI to end
-            const endRoute = await getRouteAction(
-              poi.lat,
-              poi.lon,
-              endLat.toString(),
-              endLng.toString()
-            )
-
-            const travelTimeFromStart = startRoute.isSuccess
-              ? startRoute.data?.duration
-              : undefined
-            const travelTimeFromEnd = endRoute.isSuccess
-              ? endRoute.data?.duration
-              : undefined
-            const distanceFromStart = startRoute.isSuccess
-              ? startRoute.data?.distance
-              : undefined
-            const distanceFromEnd = endRoute.isSuccess
-              ? endRoute.data?.distance
-              : undefined
-
-            const totalTravelTime =
-              travelTimeFromStart !== undefined &&
-              travelTimeFromEnd !== undefined
-                ? travelTimeFromStart + travelTimeFromEnd
-                : undefined
-
-            const travelTimeDifference =
-              travelTimeFromStart !== undefined &&
-              travelTimeFromEnd !== undefined
-                ? Math.abs(travelTimeFromEnd - travelTimeFromStart)
-                : undefined
-
-            return {
-              ...poi,
-              travelTimeFromStart,
-              travelTimeFromEnd,
-              distanceFromStart,
-              distanceFromEnd,
-              totalTravelTime,
-              travelTimeDifference,
-              isFavorite: favorites.includes(poi.osm_id || "")
-            }
-          } catch (error) {
-            console.error("Error calculating travel times for POI:", error)
-            return poi
-          }
-        })
+
+      // Fetch every origin-to-POI trip in as few requests as possible. The
+      // midpoint goes last, as the baseline for each POI's detour.
+      const matrixRes = await getTravelTimeMatrixAction(
+        origins,
+        [
+          ...pois.map(poi => ({ lat: poi.lat, lng: poi.lon })),
+          { lat: midpointLat.toString(), lng: midpointLng.toString() }
+        ],
+        travelMode,
+        avoid
+      )
+      // A newer request replaced this one while it was in flight
+      if (!isCurrent) return
+
+      if (!matrixRes.isSuccess) {
+        console.error("Error calculating travel times:", matrixRes.message)
+      }
+      setTravelTimeQuality(
+        matrixRes.isSuccess ? matrixRes.data.quality : "routed"
       )
 
+      const midpointTimes = origins.map((_, i) =>
+        matrixRes.isSuccess
+          ? matrixRes.data.durations[i]?.[pois.length]
+          : undefined
+      )
+      const midpointTotal = midpointTimes.every(time => time != null)
+        ? midpointTimes.reduce((sum: number, time) => sum + time!, 0)
+        : undefined
+
+      const updatedPois = pois.map((poi, poiIndex) => {
+        const travelTimes = origins.map((_, i) =>
+          matrixRes.isSuccess
+            ? (matrixRes.data.durations[i]?.[poiIndex] ?? undefined)
+            : undefined
+        )
+        const distances = origins.map((_, i) =>
+          matrixRes.isSuccess
+            ? (matrixRes.data.distances[i]?.[poiIndex] ?? undefined)
+            : undefined
+        )
+
+        const knownTimes = travelTimes.filter(
+          (time): time is number => time !== undefined
+        )
+        const allTimesKnown = knownTimes.length === origins.length
+
+        const totalTravelTime = allTimesKnown
+          ? knownTimes.reduce((sum, time) => sum + time, 0)
+          : undefined
+
+        const longestTravelTime = allTimesKnown
+          ? Math.max(...knownTimes)
+          : undefined
+
+        // Gap between the longest and shortest trip once each is scaled by
+        // the person's weight, so a place is fair when the times match the
+        // weighted target rather than when they are equal
+        const weightedTimes = knownTimes.map((time, i) => time / weights[i])
+        const travelTimeDifference = allTimesKnown
+          ? Math.max(...weightedTimes) - Math.min(...weightedTimes)
+          : undefined
+
+        // A venue by the road costs little more than the midpoint itself,
+        // while one off to the side adds the trip there and back
+        const detourTime =
+          totalTravelTime !== undefined && midpointTotal !== undefined
+            ? Math.max(0, totalTravelTime - midpointTotal)
+            : undefined
+
+        return {
+          ...poi,
+          travelTimes,
+          distances,
+          totalTravelTime,
+          longestTravelTime,
+          travelTimeDifference,
+          detourTime,
+          isFavorite: favorites.includes(poi.osm_id || "")
+        }
+      })
+
       setPoisWithTravelTimes(updatedPois)
       setIsLoading(false)
     }
 
     calculateTravelTimes()
+
+    return () => {
+      isCurrent = false
+    }
   }, [
     pois,
-    startLat,
-    startLng,
-    endLat,
-    endLng,
+    origins,
+    travelMode,
+    avoid,
     favorites,
-    selectedRoute,
     midpointLat,
-    midpointLng
+    midpointLng,
+    retryCount
   ])
 
   const formatDuration = (minutes?: number): string => {
-    if (minutes === undefined) return "N/A"
+    if (minutes === undefined) return t("common.notAvailable")
 
     // Round to nearest minute
     minutes = Math.round(minutes)
@@ -216,29 +278,10 @@ export default function PointsOfInterest({
     const mins = Math.round(minutes % 60)
 
     if (hours > 0) {
-      return `${hours}h ${mins}m`
+      return t("duration.hoursMinutes", { hours, minutes: mins })
     }
 
-    return `${mins}m`
-  }
-
-  const formatDistance = (meters?: number): string => {
-    if (meters === undefined) return "N/A"
-
-    // Convert meters to miles (1 meter = 0.000621371 miles)
-    const miles = meters * 0.000621371
-
-    if (miles >= 10) {
-      // For longer distances, show only one decimal place
-      return `${miles.toFixed(1)} mi`
-    } else if (miles >= 0.1) {
-      // For medium distances, show one decimal place
-      return `${miles.toFixed(1)} mi`
-    } else {
-      // For very short distances, show in feet (1 mile = 5280 feet)
-      const feet = Math.round(miles * 5280)
-      return `${feet} ft`
-    }
+    return t("duration.short", { minutes: mins })
   }
 
   const getPoiIcon = (type: string) => {
@@ -309,17 +352,22 @@ export default function PointsOfInterest({
       return true
     })
     .sort((a, b) => {
+      if (sortBy.startsWith("distanceFrom:")) {
+        const index = Number(sortBy.split(":")[1])
+        return (a.distances?.[index] || 0) - (b.distances?.[index] || 0)
+      }
+
       switch (sortBy) {
         case "name":
           return a.name.localeCompare(b.name)
-        case "distanceFromStart":
-          return (a.distanceFromStart || 0) - (b.distanceFromStart || 0)
-        case "distanceFromEnd":
-          return (a.distanceFromEnd || 0) - (b.distanceFromEnd || 0)
         case "totalTime":
           return (a.totalTravelTime || 0) - (b.totalTravelTime || 0)
+        case "longestTime":
+          return (a.longestTravelTime || 0) - (b.longestTravelTime || 0)
         case "timeDifference":
           return (a.travelTimeDifference || 0) - (b.travelTimeDifference || 0)
+        case "leastDetour":
+          return (a.detourTime || 0) - (b.detourTime || 0)
         default:
           return 0
       }
@@ -339,25 +387,41 @@ export default function PointsOfInterest({
     <Card className="h-[600px] overflow-hidden">
       <CardHeader className="pb-3">
         <div className="flex items-center justify-between">
-          <CardTitle>Points of Interest</CardTitle>
+          <CardTitle>{t("poi.title")}</CardTitle>
           <div className="flex items-center gap-2">
+            <DataQualityBadge
+              quality={travelTimeQuality}
+              onRetry={() => setRetryCount(count => count + 1)}
+              isRetrying={isLoading}
+            />
             <Select
               value={sortBy}
               onValueChange={value => setSortBy(value as SortOption)}
             >
               <SelectTrigger className="w-[140px]">
-                <SelectValue placeholder="Sort by..." />
+                <SelectValue placeholder={t("poi.sortBy")} />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="name">Name</SelectItem>
-                <SelectItem value="distanceFromStart">
-                  Distance from Start
+                <SelectItem value="name">{t("poi.sortName")}</SelectItem>
+                {origins.map((_, index) => (
+                  <SelectItem key={index} value={`distanceFrom:${index}`}>
+                    {t("poi.sortDistanceFrom", {
+                      label: getOriginLabel(index)
+                    })}
+                  </SelectItem>
+                ))}
+                <SelectItem value="totalTime">
+                  {t("poi.sortTotalTime")}
                 </SelectItem>
-                <SelectItem value="distanceFromEnd">
-                  Distance from End
+                <SelectItem value="longestTime">
+                  {t("poi.sortLongestTime")}
+                </SelectItem>
+                <SelectItem value="timeDifference">
+                  {t("poi.sortTimeDifference")}
+                </SelectItem>
+                <SelectItem value="leastDetour">
+                  {t("poi.sortLeastDetour")}
                 </SelectItem>
-                <SelectItem value="totalTime">Total Travel Time</SelectItem>
-                <SelectItem value="timeDifference">Time Difference</SelectItem>
               </SelectContent>
             </Select>
             <Button
@@ -379,11 +443,15 @@ export default function PointsOfInterest({
         >
           <div className="border-b px-6">
             <TabsList className="grid w-full grid-cols-5">
-              <TabsTrigger value="all">All</TabsTrigger>
-              <TabsTrigger value="food">Food</TabsTrigger>
-              <TabsTrigger value="activities">Activities</TabsTrigger>
-              <TabsTrigger value="lodging">Lodging</TabsTrigger>
-              <TabsTrigger value="other">Other</TabsTrigger>
+              <TabsTrigger value="all">{t("poi.filterAll")}</TabsTrigger>
+              <TabsTrigger value="food">{t("poi.filterFood")}</TabsTrigger>
+              <TabsTrigger value="activities">
+                {t("poi.filterActivities")}
+              </TabsTrigger>
+              <TabsTrigger value="lodging">
+                {t("poi.filterLodging")}
+              </TabsTrigger>
+              <TabsTrigger value="other">{t("poi.filterOther")}</TabsTrigger>
             </TabsList>
           </div>
 
@@ -401,7 +469,7 @@ export default function PointsOfInterest({
                 ))
             ) : sortedAndFilteredPois.length === 0 ? (
               <div className="text-muted-foreground p-4 text-center">
-                No points of interest found for the selected filters.
+                {t("poi.empty")}
               </div>
             ) : (
               sortedAndFilteredPois.map(poi => (
@@ -446,53 +514,76 @@ export default function PointsOfInterest({
                         </div>
 
                         <div className="grid grid-cols-2 gap-2 text-sm">
-                          <div className="flex items-center gap-1">
-                            <Clock className="size-3" />
-                            <span>
-                              From Start:{" "}
-                              {formatDuration(
-                                poi.travelTimeFromStart &&
-                                  poi.travelTimeFromStart / 60
-                              )}
-                            </span>
-                          </div>
-                          <div className="flex items-center gap-1">
-                            <Clock className="size-3" />
-                            <span>
-                              From End:{" "}
-                              {formatDuration(
-                                poi.travelTimeFromEnd &&
-                                  poi.travelTimeFromEnd / 60
-                              )}
-                            </span>
-                          </div>
-                          <div className="flex items-center gap-1">
-                            <Navigation className="size-3" />
-                            <span>
-                              From Start:{" "}
-                              {formatDistance(poi.distanceFromStart)}
-                            </span>
-                          </div>
-                          <div className="flex items-center gap-1">
-                            <Navigation className="size-3" />
-                            <span>
-                              From End: {formatDistance(poi.distanceFromEnd)}
-                            </span>
-                          </div>
+                          {origins.map((_, index) => {
+                            const travelTime = poi.travelTimes?.[index]
+                            const mode = originModes[index]
+
+                            return (
+                              <Fragment key={index}>
+                                <div className="flex items-center gap-1">
+                                  <TravelModeIcon
+                                    mode={mode}
+                                    className="size-3"
+                                  />
+                                  <span>
+                                    {t("poi.from", {
+                                      label: getOriginLabel(index),
+                                      value: formatDuration(
+                                        travelTime && travelTime / 60
+                                      )
+                                    })}{" "}
+                                    <span className="text-muted-foreground">
+                                      ({t(`travelMode.${mode}`)})
+                                    </span>
+                                  </span>
+                                </div>
+                                <div className="flex items-center gap-1">
+                                  <Navigation className="size-3" />
+                                  <span>
+                                    {t("poi.from", {
+                                      label: getOriginLabel(index),
+                                      value: formatDistance(
+                                        poi.distances?.[index],
+                                        units,
+                                        t,
+                                        {
+                                          straightLine:
+                                            travelTimeQuality === "estimated"
+                                        }
+                                      )
+                                    })}
+                                  </span>
+                                </div>
+                              </Fragment>
+                            )
+                          })}
                         </div>
 
-                        {poi.travelTimeDifference !== undefined && (
-                          <div className="mt-2">
-                            <Badge
-                              variant={
-                                poi.travelTimeDifference / 60 <= 5
-                                  ? "default"
-                                  : "secondary"
-                              }
-                            >
-                              {Math.round(poi.travelTimeDifference / 60)} min
-                              difference
-                            </Badge>
+                        {(poi.travelTimeDifference !== undefined ||
+                          poi.detourTime !== undefined) && (
+                          <div className="mt-2 flex gap-2">
+                            {poi.travelTimeDifference !== undefined && (
+                              <Badge
+                                variant={
+                                  poi.travelTimeDifference / 60 <= 5
+                                    ? "default"
+                                    : "secondary"
+                                }
+                              >
+                                {t("poi.timeDifference", {
+                                  minutes: Math.round(
+                                    poi.travelTimeDifference / 60
+                                  )
+                                })}
+                              </Badge>
+                            )}
+                            {poi.detourTime !== undefined && (
+                              <Badge variant="outline">
+                                {t("poi.detour", {
+                                  minutes: Math.round(poi.detourTime / 60)
+                                })}
+                              </Badge>
+                            )}
                           </div>
                         )}
                       </div>
@@ -512,7 +603,7 @@ export default function PointsOfInterest({
                               )
                             }
                           >
-                            Open in Google Maps
+                            {t("poi.openIn", { app: "Google Maps" })}
                           </DropdownMenuItem>
                           <DropdownMenuItem
                             onClick={() =>
@@ -522,7 +613,7 @@ export default function PointsOfInterest({
                               )
                             }
                           >
-                            Open in Apple Maps
+                            {t("poi.openIn", { app: "Apple Maps" })}
                           </DropdownMenuItem>
                           <DropdownMenuItem
                             onClick={() =>
@@ -532,7 +623,7 @@ export default function PointsOfInterest({
                               )
                             }
                           >
-                            Open in Waze
+                            {t("poi.openIn", { app: "Waze" })}
                           </DropdownMenuItem>
                         </DropdownMenuContent>
                       </DropdownMenu>
@@ -1,38 +1,82 @@
 "use client"
 
-import { useEffect, useState } from "react"
+import { useEffect, useMemo, useState } from "react"
 import {
+  calculateMultiMidpointAction,
   getRouteAction,
-  getAlternateRouteAction,
-  searchPoisAction
+  getRoutesAction,
+  reverseGeocodeAction,
+  searchCorridorPoisAction,
+  searchPoisAction,
+  snapMidpointAction
 } from "@/actions/locationiq-actions"
+import { updateSearchAction } from "@/actions/db/searches-actions"
+import {
+  DataQuality,
+  MeetingObjective,
+  Origin,
+  PoiResponse,
+  PoiSearchResponse,
+  RouteAvoidance,
+  SnappedMidpoint,
+  TravelMode
+} from "@/types"
+import { combineQuality } from "@/lib/data-quality"
+import { DEFAULT_MEETING_OBJECTIVE } from "@/lib/objectives"
+import { formatRouteAvoidances } from "@/lib/avoidances"
+import { RouteSplit, splitRoute } from "@/lib/midpoint"
+import { MIN_MEETABLE_VENUES } from "@/lib/snapping"
+import { POI_SEARCH_RADIUS } from "@/lib/poi-search"
+import { getRouteCorridor } from "@/lib/corridor"
+import { distanceBetween } from "@/lib/geo"
+import { formatDistance } from "@/lib/units"
+import {
+  getOriginLabel,
+  getOriginWeights,
+  getTravelShares
+} from "@/lib/participants"
+import { MAX_ROUTES, getRouteColors, getRouteLabel } from "@/lib/routes"
+import { DEFAULT_TRAVEL_MODE, getOriginTravelModes } from "@/lib/travel-modes"
+import { Translator } from "@/lib/i18n"
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card"
 import { Label } from "@/components/ui/label"
 import { Switch } from "@/components/ui/switch"
 import { Button } from "@/components/ui/button"
+import TravelModeIcon from "@/components/travel-mode-icon"
+import DataQualityBadge from "@/components/data-quality-badge"
+import { useUnits } from "@/components/utilities/units-provider"
+import { useI18n } from "@/components/utilities/i18n-provider"
 import { MapPin } from "lucide-react"
 import dynamic from "next/dynamic"
 import "leaflet/dist/leaflet.css"
 import PointsOfInterest from "./points-of-interest"
 
-const Map = dynamic(() => import("./map"), {
-  ssr: false,
-  loading: () => (
+const MapLoading = () => {
+  const { t } = useI18n()
+
+  return (
     <div className="flex h-[520px] w-full items-center justify-center rounded-lg bg-gray-100">
-      <div className="text-gray-500">Loading map...</div>
+      <div className="text-gray-500">{t("results.loadingMap")}</div>
     </div>
   )
+}
+
+const Map = dynamic(() => import("./map"), {
+  ssr: false,
+  loading: MapLoading
 })
 
 interface ResultsMapProps {
-  startLat: string
-  startLng: string
-  endLat: string
-  endLng: string
-  startAddress: string
-  endAddress: string
-  selectedRoute: "main" | "alternate"
-  onRouteSelect: (route: "main" | "alternate") => void
+  origins: Origin[]
+  travelMode?: TravelMode
+  objective?: MeetingObjective
+  // Road features the routes should avoid
+  avoid?: RouteAvoidance[]
+  // Index into the routes between two people; 0 is the best route
+  selectedRouteIndex: number
+  onRouteSelect: (routeIndex: number) => void
+  // Saved search to record the midpoint and its data quality on
+  searchId?: string
 }
 
 interface RouteData {
@@ -41,185 +85,427 @@ interface RouteData {
   }
   duration: number
   distance: number
+  legs?: { annotation?: { duration?: number[] } }[]
+  quality?: DataQuality
+  avoided?: RouteAvoidance[]
 }
 
-// Function to calculate the midpoint along a route
-function getMidpoint(route: any) {
-  if (!route) return null
-
-  const coordinates = route.geometry.coordinates
-  const totalDistance = route.distance
-
-  // Find the point closest to 50% of the total distance
-  let currentDistance = 0
-  let midpointIndex = 0
-
-  for (let i = 0; i < coordinates.length - 1; i++) {
-    const point1 = coordinates[i]
-    const point2 = coordinates[i + 1]
-
-    // Calculate distance between two points using the Haversine formula
-    const lat1 = point1[1]
-    const lon1 = point1[0]
-    const lat2 = point2[1]
-    const lon2 = point2[0]
-
-    const R = 6371e3 // Earth's radius in meters
-    const φ1 = (lat1 * Math.PI) / 180
-    const φ2 = (lat2 * Math.PI) / 180
-    const Δφ = ((lat2 - lat1) * Math.PI) / 180
-    const Δλ = ((lon2 - lon1) * Math.PI) / 180
-
-    const a =
-      Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
-      Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2)
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
-    const segmentDistance = R * c
-
-    if (currentDistance + segmentDistance > totalDistance / 2) {
-      // The midpoint lies on this segment
-      const ratio = (totalDistance / 2 - currentDistance) / segmentDistance
-      const midLat = lat1 + ratio * (lat2 - lat1)
-      const midLon = lon1 + ratio * (lon2 - lon1)
-      return { lat: midLat, lng: midLon }
-    }
+interface RouteSplits {
+  time: RouteSplit | null
+  distance: RouteSplit | null
+}
 
-    currentDistance += segmentDistance
-    midpointIndex++
-  }
+// The share is the part of the trip that falls to the first person
+const getRouteSplits = (
+  route: RouteData | null,
+  share: number
+): RouteSplits => ({
+  time: splitRoute(route, "time", share),
+  distance: splitRoute(route, "distance", share)
+})
 
-  // If we haven't found the midpoint (shouldn't happen), return the middle coordinate
-  const middleIndex = Math.floor(coordinates.length / 2)
-  return {
-    lat: coordinates[middleIndex][1],
-    lng: coordinates[middleIndex][0]
-  }
-}
+const formatSplitDurations = (split: RouteSplit, t: Translator) =>
+  split.durations
+    .map(
+      (seconds, index) =>
+        `${getOriginLabel(index)} ${t("duration.minutes", { minutes: Math.round(seconds / 60) })}`
+    )
+    .join(" • ")
+
+// Prefer the split by travel time, falling back to the split by distance
+const getBalancedPoint = (splits: RouteSplits) =>
+  (splits.time ?? splits.distance)?.point ?? null
+
+const NO_AVOIDANCES: RouteAvoidance[] = []
+
+// Shared so a route without POIs does not hand the list a new array, and so
+// a new round of travel times, on every render
+const NO_POIS: PoiResponse[] = []
+
+const getPointKey = (point: { lat: number; lng: number }) =>
+  `${point.lat},${point.lng}`
+
+const formatExtraTime = (seconds: number | null, t: Translator) =>
+  seconds == null
+    ? t("results.unknownTime")
+    : `${seconds >= 0 ? "+" : "−"}${t("duration.minutes", { minutes: Math.round(Math.abs(seconds) / 60) })}`
 
 export default function ResultsMap({
-  startLat,
-  startLng,
-  endLat,
-  endLng,
-  startAddress,
-  endAddress,
-  selectedRoute,
-  onRouteSelect
+  origins,
+  travelMode = DEFAULT_TRAVEL_MODE,
+  objective = DEFAULT_MEETING_OBJECTIVE,
+  avoid = NO_AVOIDANCES,
+  selectedRouteIndex,
+  onRouteSelect,
+  searchId
 }: ResultsMapProps) {
-  const [mainRoute, setMainRoute] = useState<RouteData | null>(null)
-  const [alternateRoute, setAlternateRoute] = useState<RouteData | null>(null)
-  const [showAlternateRoute, setShowAlternateRoute] = useState(true)
+  // The best route first, then any genuine alternatives
+  const [routes, setRoutes] = useState<RouteData[]>([])
+  const [hasLoadedRoutes, setHasLoadedRoutes] = useState(false)
+  const [groupMidpoint, setGroupMidpoint] = useState<{
+    lat: number
+    lng: number
+  } | null>(null)
+  const [groupMidpointQuality, setGroupMidpointQuality] =
+    useState<DataQuality>("routed")
+  const [originRoutes, setOriginRoutes] = useState<(RouteData | null)[]>([])
+  const [showAlternateRoutes, setShowAlternateRoutes] = useState(true)
   const [isClient, setIsClient] = useState(false)
-  const [mainPois, setMainPois] = useState<any[]>([])
-  const [alternatePois, setAlternatePois] = useState<any[]>([])
+  // POIs around each route's meeting point and the radius searched to find
+  // them, keyed by route index
+  const [poisByRoute, setPoisByRoute] = useState<
+    Record<number, PoiSearchResponse>
+  >({})
   const [showPois, setShowPois] = useState(true)
   const [isLoadingPois, setIsLoadingPois] = useState(false)
+  // Name of the place the meeting point lies in, keyed by the point
+  const [meetingPlace, setMeetingPlace] = useState<{
+    key: string
+    label: string
+  } | null>(null)
+  // Search a corridor along the middle of the route rather than a circle
+  const [searchAlongRoute, setSearchAlongRoute] = useState(false)
+  // Bumped to fetch the routes again after they had to be estimated
+  const [retryCount, setRetryCount] = useState(0)
+  const { units } = useUnits()
+  const { t } = useI18n()
+  // The midpoint moved to a place to meet at, keyed by the midpoint it was
+  // snapped from; null when snapping failed
+  const [snap, setSnap] = useState<{
+    key: string
+    result: SnappedMidpoint | null
+  } | null>(null)
 
   // Set isClient to true on mount
   useEffect(() => {
     setIsClient(true)
   }, [])
 
-  // Get current midpoint based on selected route
-  const currentMidpoint =
-    selectedRoute === "main"
-      ? getMidpoint(mainRoute)
-      : getMidpoint(alternateRoute)
+  // Two origins travelling the same way for equal travel times share a single
+  // route (with any alternatives). Larger groups, people travelling by
+  // different modes and other objectives meet at a midpoint reached by one
+  // route per origin in its own mode.
+  const originModes = getOriginTravelModes(origins, travelMode)
+  const isMixedMode = originModes.some(mode => mode !== originModes[0])
+  const isPairSearch =
+    origins.length === 2 && !isMixedMode && objective === "equalTime"
+  const originsKey = origins
+    .map(
+      (origin, index) =>
+        `${origin.lat},${origin.lng},${originModes[index]},${origin.weight ?? ""}`
+    )
+    .join(";")
+  const avoidKey = avoid.join(",")
+
+  // Part of the trip between two people that falls to the first of them
+  const startShare = getTravelShares(getOriginWeights(origins))[0] ?? 0.5
+  const isWeighted = Math.abs(startShare - 0.5) > 1e-9
 
-  // Get alternate midpoint for the map
-  const alternateMidpoint =
-    selectedRoute === "main"
-      ? getMidpoint(alternateRoute)
-      : getMidpoint(mainRoute)
+  // Fall back to the best route if the selected one no longer exists
+  const routeIndex = selectedRouteIndex < routes.length ? selectedRouteIndex : 0
+
+  const routeSplits = useMemo(
+    () => routes.map(route => getRouteSplits(route, startShare)),
+    [routes, startShare]
+  )
+  const selectedSplits: RouteSplits = routeSplits[routeIndex] ?? {
+    time: null,
+    distance: null
+  }
+
+  // Each route has its own midpoint; the selected one drives the POI search
+  const routeMidpoints = useMemo(
+    () => routeSplits.map(getBalancedPoint),
+    [routeSplits]
+  )
+  const currentMidpoint = useMemo(
+    () => (isPairSearch ? (routeMidpoints[routeIndex] ?? null) : groupMidpoint),
+    [isPairSearch, routeMidpoints, routeIndex, groupMidpoint]
+  )
+
+  // Where people actually meet: the snapped place once snapping has finished
+  // for the current midpoint, or the midpoint itself if nothing was found
+  const meetingPoint = useMemo(() => {
+    if (!currentMidpoint || snap?.key !== getPointKey(currentMidpoint)) {
+      return null
+    }
+    const result = snap.result
+    return result?.snapped
+      ? { lat: parseFloat(result.lat), lng: parseFloat(result.lon) }
+      : currentMidpoint
+  }, [currentMidpoint, snap])
+  const snappedMidpoint =
+    meetingPoint && snap?.result?.snapped ? snap.result : null
+
+  // Only a route between two people has a middle to search along
+  const canSearchAlongRoute =
+    isPairSearch && (routes[routeIndex]?.geometry.coordinates.length ?? 0) > 1
+
+  // The split by distance, shown for comparison when it differs from the
+  // split by travel time
+  const distanceMidpoint =
+    isPairSearch && selectedSplits.time
+      ? selectedSplits.distance?.point
+      : undefined
+
+  // Estimated if any route shown, or the routing behind the group midpoint
+  // or the snapped place, had to be estimated
+  const dataQuality = combineQuality(
+    snappedMidpoint?.quality,
+    ...(isPairSearch
+      ? routes.map(route => route.quality)
+      : [groupMidpointQuality, ...originRoutes.map(route => route?.quality)])
+  )
+
+  // An avoidance was in force only if every route shown honoured it; the
+  // provider may not support it for a mode, and estimates avoid nothing
+  const shownRoutes = isPairSearch
+    ? routes
+    : originRoutes.filter((route): route is RouteData => route !== null)
+  const appliedAvoidances = avoid.filter(
+    avoidance =>
+      shownRoutes.length > 0 &&
+      shownRoutes.every(route => route.avoided?.includes(avoidance))
+  )
+  const ignoredAvoidances = avoid.filter(
+    avoidance => !appliedAvoidances.includes(avoidance)
+  )
 
   // Fetch routes on component mount
   useEffect(() => {
+    let isCurrent = true
+
+    const fetchPairRoutes = async () => {
+      const [start, end] = origins
+
+      // Get the best route and any genuine alternatives in one request
+      const routesRes = await getRoutesAction(
+        start.lat,
+        start.lng,
+        end.lat,
+        end.lng,
+        originModes[0],
+        MAX_ROUTES,
+        avoid
+      )
+      if (!isCurrent) return
+
+      setRoutes(routesRes.isSuccess ? routesRes.data : [])
+      setShowAlternateRoutes(true)
+    }
+
+    const fetchGroupRoutes = async () => {
+      const midpointRes = await calculateMultiMidpointAction(
+        origins,
+        travelMode,
+        objective,
+        avoid
+      )
+      if (!isCurrent) return
+      if (!midpointRes.isSuccess) {
+        console.error("Error calculating group midpoint:", midpointRes.message)
+        return
+      }
+
+      const midpoint = midpointRes.data
+      setGroupMidpoint({
+        lat: parseFloat(midpoint.lat),
+        lng: parseFloat(midpoint.lon)
+      })
+      setGroupMidpointQuality(midpoint.quality)
+
+      // Route each origin to the shared midpoint in its own travel mode
+      const routes: (RouteData | null)[] = []
+      for (let i = 0; i < origins.length; i++) {
+        const routeRes = await getRouteAction(
+          origins[i].lat,
+          origins[i].lng,
+          midpoint.lat,
+          midpoint.lon,
+          originModes[i],
+          avoid
+        )
+        if (!isCurrent) return
+
+        routes.push(routeRes.isSuccess ? routeRes.data : null)
+      }
+      setOriginRoutes(routes)
+    }
+
     const fetchRoutes = async () => {
+      setHasLoadedRoutes(false)
       try {
-        // Get main route
-        const mainRouteRes = await getRouteAction(
-          startLat,
-          startLng,
-          endLat,
-          endLng
-        )
-        if (mainRouteRes.isSuccess) {
-          setMainRoute(mainRouteRes.data)
-        }
+        if (origins.length < 2) return
 
-        // Get alternate route
-        const alternateRouteRes = await getAlternateRouteAction(
-          startLat,
-          startLng,
-          endLat,
-          endLng
-        )
-        if (alternateRouteRes.isSuccess) {
-          setAlternateRoute(alternateRouteRes.data)
-          setShowAlternateRoute(true)
+        if (isPairSearch) {
+          await fetchPairRoutes()
+        } else {
+          await fetchGroupRoutes()
         }
       } catch (error) {
         console.error("Error fetching routes:", error)
+      } finally {
+        if (isCurrent) setHasLoadedRoutes(true)
       }
     }
 
     if (isClient) {
       fetchRoutes()
     }
-  }, [startLat, startLng, endLat, endLng, isClient])
 
-  // Fetch POIs when routes change or selected route changes
+    return () => {
+      isCurrent = false
+    }
+  }, [originsKey, travelMode, objective, avoidKey, isClient, retryCount])
+
+  // Record the midpoint on the saved search once the routes have loaded, so
+  // saved searches show whether they relied on estimates
+  useEffect(() => {
+    if (!searchId || !hasLoadedRoutes || !currentMidpoint) return
+
+    updateSearchAction(searchId, {
+      midpointLat: currentMidpoint.lat.toString(),
+      midpointLng: currentMidpoint.lng.toString(),
+      dataQuality
+    }).then(result => {
+      if (!result.isSuccess) {
+        console.error("Error saving midpoint:", result.message)
+      }
+    })
+  }, [searchId, hasLoadedRoutes, currentMidpoint, dataQuality])
+
+  // Name the meeting point once it has settled, e.g. "Princeton, NJ"
   useEffect(() => {
+    if (!meetingPoint) return
+
+    const key = getPointKey(meetingPoint)
+    let isCurrent = true
+
+    reverseGeocodeAction(
+      meetingPoint.lat.toString(),
+      meetingPoint.lng.toString()
+    ).then(result => {
+      if (!result.isSuccess) {
+        console.warn("Could not name the meeting point:", result.message)
+        return
+      }
+      if (isCurrent) setMeetingPlace({ key, label: result.data.label })
+    })
+
+    return () => {
+      isCurrent = false
+    }
+  }, [meetingPoint])
+
+  const meetingPlaceName =
+    meetingPoint && meetingPlace?.key === getPointKey(meetingPoint)
+      ? meetingPlace.label
+      : undefined
+
+  // Record the name on the saved search so the history is easy to scan
+  useEffect(() => {
+    if (!searchId || !meetingPlaceName) return
+
+    updateSearchAction(searchId, { midpointName: meetingPlaceName }).then(
+      result => {
+        if (!result.isSuccess) {
+          console.error("Error saving midpoint name:", result.message)
+        }
+      }
+    )
+  }, [searchId, meetingPlaceName])
+
+  // Snap each new midpoint to a nearby place with venues to meet at
+  useEffect(() => {
+    if (!isClient || !hasLoadedRoutes || !currentMidpoint) return
+
+    const key = getPointKey(currentMidpoint)
+    let isCurrent = true
+
+    snapMidpointAction(
+      origins,
+      {
+        lat: currentMidpoint.lat.toString(),
+        lon: currentMidpoint.lng.toString()
+      },
+      travelMode,
+      objective,
+      avoid
+    )
+      .then(result => {
+        if (!result.isSuccess) {
+          console.error("Error snapping midpoint:", result.message)
+        }
+        if (isCurrent) {
+          setSnap({ key, result: result.isSuccess ? result.data : null })
+        }
+      })
+      .catch(error => {
+        console.error("Error snapping midpoint:", error)
+        if (isCurrent) setSnap({ key, result: null })
+      })
+
+    return () => {
+      isCurrent = false
+    }
+  }, [currentMidpoint, hasLoadedRoutes, isClient])
+
+  // Fetch POIs around the meeting point when it changes
+  useEffect(() => {
+    let isCurrent = true
+
     const fetchPois = async () => {
-      if (!isClient || !currentMidpoint) return
+      if (!isClient || !meetingPoint) return
+
+      const corridor =
+        searchAlongRoute && canSearchAlongRoute
+          ? getRouteCorridor(
+              routes[routeIndex].geometry.coordinates,
+              meetingPoint
+            )
+          : []
 
       setIsLoadingPois(true)
       try {
-        const result = await searchPoisAction(
-          currentMidpoint.lat.toString(),
-          currentMidpoint.lng.toString(),
-          1500,
-          [
-            "restaurant",
-            "cafe",
-            "bar",
-            "park",
-            "library",
-            "cinema",
-            "theatre",
-            "museum",
-            "hotel"
-          ]
-        )
-
-        if (result.isSuccess) {
-          if (selectedRoute === "main") {
-            setMainPois(result.data)
-          } else {
-            setAlternatePois(result.data)
-          }
+        const result =
+          corridor.length > 0
+            ? await searchCorridorPoisAction(corridor)
+            : await searchPoisAction(
+                meetingPoint.lat.toString(),
+                meetingPoint.lng.toString(),
+                POI_SEARCH_RADIUS
+              )
+
+        if (isCurrent && result.isSuccess) {
+          setPoisByRoute(prev => ({ ...prev, [routeIndex]: result.data }))
         }
       } catch (error) {
         console.error("Error fetching POIs:", error)
       } finally {
-        setIsLoadingPois(false)
+        if (isCurrent) setIsLoadingPois(false)
       }
     }
 
-    if (mainRoute || alternateRoute) {
+    if (meetingPoint) {
       fetchPois()
     }
-  }, [currentMidpoint, selectedRoute, mainRoute, alternateRoute, isClient])
+
+    return () => {
+      isCurrent = false
+    }
+  }, [meetingPoint, routeIndex, searchAlongRoute, isClient])
 
   // Get current POIs based on selected route
-  const currentPois = selectedRoute === "main" ? mainPois : alternatePois
+  const currentPois = poisByRoute[routeIndex]?.pois || NO_POIS
+  const currentPoiRadius = poisByRoute[routeIndex]?.radius
+  const currentPoiCorridor = poisByRoute[routeIndex]?.corridor
 
   if (!isClient) {
     return (
       <Card className="h-[600px]">
         <CardContent className="p-0">
           <div className="bg-muted flex h-[600px] animate-pulse items-center justify-center rounded-lg border">
-            <p className="text-muted-foreground">Loading map...</p>
+            <p className="text-muted-foreground">{t("results.loadingMap")}</p>
           </div>
         </CardContent>
       </Card>
@@ -231,8 +517,28 @@ export default function ResultsMap({
       <Card className="h-[600px]">
         <CardHeader className="pb-3">
           <div className="flex items-center justify-between">
-            <CardTitle>Route Map</CardTitle>
+            <CardTitle>
+              {t("results.routeMap")}
+              <span className="text-muted-foreground ml-2 text-sm font-normal">
+                {isMixedMode
+                  ? t("travelMode.mixed")
+                  : t(`travelMode.${originModes[0]}`)}{" "}
+                • {t(`objective.${objective}`)}
+              </span>
+              {meetingPlaceName && (
+                <div className="text-muted-foreground mt-1 flex items-center gap-1 text-sm font-normal">
+                  <MapPin className="size-3" />
+                  {t("results.meetingNear", { place: meetingPlaceName })}
+                </div>
+              )}
+            </CardTitle>
             <div className="flex items-center gap-4">
+              {hasLoadedRoutes && (
+                <DataQualityBadge
+                  quality={dataQuality}
+                  onRetry={() => setRetryCount(count => count + 1)}
+                />
+              )}
               <Button
                 variant={showPois ? "default" : "outline"}
                 size="sm"
@@ -242,19 +548,37 @@ export default function ResultsMap({
               >
                 <MapPin className="size-4" />
                 {isLoadingPois
-                  ? "Loading..."
+                  ? t("common.loading")
                   : showPois
-                    ? "Hide POIs"
-                    : "Show POIs"}
+                    ? t("results.hidePois")
+                    : t("results.showPois")}
               </Button>
 
-              {alternateRoute && (
+              {canSearchAlongRoute && (
+                <div className="flex items-center gap-2">
+                  <Label htmlFor="search-along-route">
+                    {t("results.alongRoute")}
+                  </Label>
+                  <Switch
+                    id="search-along-route"
+                    checked={searchAlongRoute}
+                    onCheckedChange={setSearchAlongRoute}
+                    disabled={isLoadingPois}
+                  />
+                </div>
+              )}
+
+              {isPairSearch && routes.length > 1 && (
                 <div className="flex items-center gap-2">
-                  <Label htmlFor="show-alternate">Show Alternate Route</Label>
+                  <Label htmlFor="show-alternate">
+                    {t("results.showAlternateRoutes", {
+                      count: routes.length - 1
+                    })}
+                  </Label>
                   <Switch
                     id="show-alternate"
-                    checked={showAlternateRoute}
-                    onCheckedChange={setShowAlternateRoute}
+                    checked={showAlternateRoutes}
+                    onCheckedChange={setShowAlternateRoutes}
                   />
                 </div>
               )}
@@ -263,66 +587,208 @@ export default function ResultsMap({
         </CardHeader>
         <CardContent className="relative p-0">
           <Map
-            startLat={parseFloat(startLat) || 0}
-            startLng={parseFloat(startLng) || 0}
-            endLat={parseFloat(endLat) || 0}
-            endLng={parseFloat(endLng) || 0}
-            startAddress={startAddress}
-            endAddress={endAddress}
-            midpointLat={(currentMidpoint?.lat ?? parseFloat(startLat)) || 0}
-            midpointLng={(currentMidpoint?.lng ?? parseFloat(startLng)) || 0}
-            alternateMidpointLat={
-              (alternateMidpoint?.lat ??
-                currentMidpoint?.lat ??
-                parseFloat(startLat)) ||
-              0
+            origins={origins.map(origin => ({
+              lat: parseFloat(origin.lat),
+              lng: parseFloat(origin.lng),
+              address: origin.address,
+              geocodedBy: origin.geocodedBy
+            }))}
+            midpointLat={
+              (currentMidpoint?.lat ?? parseFloat(origins[0]?.lat)) || 0
+            }
+            midpointLng={
+              (currentMidpoint?.lng ?? parseFloat(origins[0]?.lng)) || 0
             }
-            alternateMidpointLng={
-              (alternateMidpoint?.lng ??
-                currentMidpoint?.lng ??
-                parseFloat(startLng)) ||
-              0
+            distanceMidpointLat={distanceMidpoint?.lat}
+            distanceMidpointLng={distanceMidpoint?.lng}
+            midpointName={meetingPlaceName}
+            snappedPoint={
+              snappedMidpoint
+                ? {
+                    lat: parseFloat(snappedMidpoint.lat),
+                    lng: parseFloat(snappedMidpoint.lon),
+                    name: snappedMidpoint.placeName
+                  }
+                : undefined
             }
-            mainRoute={mainRoute}
-            alternateRoute={alternateRoute}
-            showAlternateRoute={showAlternateRoute}
-            selectedRoute={selectedRoute}
+            routes={isPairSearch ? routes : []}
+            routeMidpoints={isPairSearch ? routeMidpoints : []}
+            originRoutes={originRoutes}
+            showAlternateRoutes={showAlternateRoutes}
+            selectedRouteIndex={routeIndex}
             onRouteSelect={onRouteSelect}
             pois={currentPois}
             showPois={showPois}
+            poiSearchCenter={meetingPoint ?? undefined}
+            poiSearchRadius={currentPoiRadius}
+            poiSearchCorridor={currentPoiCorridor}
           />
 
           {/* Route Summary */}
           <div className="absolute bottom-4 right-4 space-y-2">
-            {mainRoute && (
-              <Card
-                className={`cursor-pointer p-2 transition-all ${
-                  selectedRoute === "main" ? "border-blue-500 bg-blue-50" : ""
-                }`}
-                onClick={() => onRouteSelect("main")}
-              >
-                <div className="text-sm font-medium">Main Route</div>
+            {hasLoadedRoutes && avoid.length > 0 && (
+              <Card className="p-2">
+                <div className="text-sm font-medium">
+                  {t("results.routeConstraints")}
+                </div>
+                {appliedAvoidances.length > 0 && (
+                  <div className="text-muted-foreground text-xs">
+                    {t("results.avoiding", {
+                      avoidances: formatRouteAvoidances(appliedAvoidances, t)
+                    })}
+                  </div>
+                )}
+                {ignoredAvoidances.length > 0 && (
+                  <div className="text-xs text-amber-700">
+                    {t("results.notAvoided", {
+                      avoidances: formatRouteAvoidances(ignoredAvoidances, t)
+                    })}
+                  </div>
+                )}
+              </Card>
+            )}
+
+            {snappedMidpoint && currentMidpoint && meetingPoint && (
+              <Card className="p-2">
+                <div className="text-sm font-medium">
+                  {t("results.meetingAt", {
+                    place:
+                      snappedMidpoint.placeName ?? t("results.venueCluster")
+                  })}
+                </div>
+                <div className="text-muted-foreground text-xs">
+                  {t("results.fromMidpoint", {
+                    distance: formatDistance(
+                      distanceBetween(currentMidpoint, meetingPoint),
+                      units,
+                      t
+                    )
+                  })}{" "}
+                  •{" "}
+                  {t("results.venuesNearby", {
+                    count: snappedMidpoint.venueCount
+                  })}
+                </div>
                 <div className="text-muted-foreground text-xs">
-                  {Math.round(mainRoute.duration / 60)} min •{" "}
-                  {(mainRoute.distance * 0.000621371).toFixed(1)} mi
+                  {t("results.extraTravel", {
+                    times: snappedMidpoint.extraTravelTimes
+                      .map(
+                        (seconds, index) =>
+                          `${getOriginLabel(index)} ${formatExtraTime(seconds, t)}`
+                      )
+                      .join(" • ")
+                  })}
                 </div>
               </Card>
             )}
 
-            {alternateRoute && showAlternateRoute && (
-              <Card
-                className={`cursor-pointer p-2 transition-all ${
-                  selectedRoute === "alternate"
-                    ? "border-red-500 bg-red-50"
-                    : ""
-                }`}
-                onClick={() => onRouteSelect("alternate")}
-              >
-                <div className="text-sm font-medium">Alternate Route</div>
+            {snap?.result &&
+              !snap.result.snapped &&
+              meetingPoint &&
+              snap.result.venueCount < MIN_MEETABLE_VENUES && (
+                <Card className="p-2">
+                  <div className="text-xs text-amber-700">
+                    {t("results.fewVenues")}
+                  </div>
+                </Card>
+              )}
+
+            {isPairSearch && selectedSplits.time && (
+              <Card className="p-2">
+                <div className="text-sm font-medium">
+                  {t("results.midpointComparison")}
+                </div>
                 <div className="text-muted-foreground text-xs">
-                  {Math.round(alternateRoute.duration / 60)} min •{" "}
-                  {(alternateRoute.distance * 0.000621371).toFixed(1)} mi
+                  {isWeighted
+                    ? t("results.weightedTime")
+                    : t("results.equalTime")}{" "}
+                  {formatSplitDurations(selectedSplits.time, t)}
+                </div>
+                {selectedSplits.distance && (
+                  <div className="text-muted-foreground text-xs">
+                    {isWeighted
+                      ? t("results.splitByDistance")
+                      : t("results.halfwayByDistance")}{" "}
+                    {formatSplitDurations(selectedSplits.distance, t)}
+                  </div>
+                )}
+              </Card>
+            )}
+
+            {isPairSearch &&
+              routes.map((route, index) => {
+                if (index > 0 && !showAlternateRoutes) return null
+
+                const colors = getRouteColors(index)
+                const isSelected = index === routeIndex
+
+                return (
+                  <Card
+                    key={index}
+                    className="cursor-pointer p-2 transition-all"
+                    style={
+                      isSelected
+                        ? {
+                            borderColor: colors.selected,
+                            backgroundColor: `${colors.selected}1a`
+                          }
+                        : undefined
+                    }
+                    onClick={() => onRouteSelect(index)}
+                  >
+                    <div className="text-sm font-medium">
+                      {getRouteLabel(index, routes.length, t)}
+                    </div>
+                    <div className="text-muted-foreground text-xs">
+                      {t("duration.minutes", {
+                        minutes: Math.round(route.duration / 60)
+                      })}{" "}
+                      •{" "}
+                      {formatDistance(route.distance, units, t, {
+                        straightLine: route.quality === "estimated"
+                      })}
+                    </div>
+                  </Card>
+                )
+              })}
+
+            {isPairSearch && hasLoadedRoutes && routes.length === 1 && (
+              <Card className="p-2">
+                <div className="text-muted-foreground text-xs">
+                  {t("results.noAlternative")}
+                </div>
+              </Card>
+            )}
+
+            {!isPairSearch && originRoutes.some(Boolean) && (
+              <Card className="p-2">
+                <div className="text-sm font-medium">
+                  {t("results.tripsToMidpoint")}
                 </div>
+                {originRoutes.map(
+                  (route, index) =>
+                    route && (
+                      <div
+                        key={index}
+                        className="text-muted-foreground flex items-center gap-1 text-xs"
+                      >
+                        {getOriginLabel(index)}
+                        <TravelModeIcon
+                          mode={originModes[index]}
+                          className="size-3"
+                          aria-label={t(`travelMode.${originModes[index]}`)}
+                        />
+                        :{" "}
+                        {t("duration.minutes", {
+                          minutes: Math.round(route.duration / 60)
+                        })}{" "}
+                        •{" "}
+                        {formatDistance(route.distance, units, t, {
+                          straightLine: route.quality === "estimated"
+                        })}
+                      </div>
+                    )
+                )}
               </Card>
             )}
           </div>
@@ -333,15 +799,12 @@ export default function ResultsMap({
       {showPois && (
         <PointsOfInterest
           pois={currentPois}
-          startLat={parseFloat(startLat)}
-          startLng={parseFloat(startLng)}
-          endLat={parseFloat(endLat)}
-          endLng={parseFloat(endLng)}
-          startAddress={startAddress}
-          endAddress={endAddress}
-          selectedRoute={selectedRoute}
-          midpointLat={currentMidpoint?.lat || parseFloat(startLat)}
-          midpointLng={currentMidpoint?.lng || parseFloat(startLng)}
+          origins={origins}
+          travelMode={travelMode}
+          objective={objective}
+          avoid={avoid}
+          midpointLat={meetingPoint?.lat || parseFloat(origins[0]?.lat)}
+          midpointLng={meetingPoint?.lng || parseFloat(origins[0]?.lng)}
         />
       )}
     </div>
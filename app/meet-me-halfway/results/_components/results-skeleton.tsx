@@ -1,12 +1,15 @@
 "use client"
 
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { useI18n } from "@/components/utilities/i18n-provider"
 
 export default function ResultsSkeleton() {
+  const { t } = useI18n()
+
   return (
     <Card>
       <CardHeader>
-        <CardTitle>Meeting Point Map</CardTitle>
+        <CardTitle>{t("map.title")}</CardTitle>
       </CardHeader>
       <CardContent>
         <div className="space-y-4">
@@ -4,7 +4,12 @@ import { auth } from "@clerk/nextjs/server"
 import { redirect } from "next/navigation"
 import { Suspense } from "react"
 import ResultsMap from "./_components/results-map"
+import { isTravelMode } from "@/lib/travel-modes"
+import { isMeetingObjective } from "@/lib/objectives"
+import { parseRouteAvoidances } from "@/lib/avoidances"
+import { parseRouteIndex } from "@/lib/routes"
 import ResultsSkeleton from "./_components/results-skeleton"
+import { getTranslator } from "@/lib/i18n/server"
 
 interface SearchParams {
   startLat?: string
@@ -14,6 +19,10 @@ interface SearchParams {
   endLng?: string
   endAddress?: string
   selectedRoute?: string
+  travelMode?: string
+  objective?: string
+  // Comma separated, e.g. "tolls,ferries"
+  avoid?: string
   midpointLat?: string
   midpointLng?: string
   alternateMidpointLat?: string
@@ -39,26 +48,31 @@ export default async function ResultsPage({
     startAddress = "",
     endAddress = "",
     selectedRoute = "main",
+    travelMode,
+    objective,
+    avoid,
     midpointLat = "0",
     midpointLng = "0",
     alternateMidpointLat = "0",
     alternateMidpointLng = "0"
   } = searchParams
+  const t = await getTranslator()
 
   return (
     <div className="container py-6">
-      <h1 className="mb-6 text-3xl font-bold">Meet Me Halfway Results</h1>
+      <h1 className="mb-6 text-3xl font-bold">{t("results.title")}</h1>
 
       <div className="w-full">
         <Suspense fallback={<ResultsSkeleton />}>
           <ResultsMap
-            startLat={startLat}
-            startLng={startLng}
-            endLat={endLat}
-            endLng={endLng}
-            startAddress={startAddress}
-            endAddress={endAddress}
-            selectedRoute={selectedRoute as "main" | "alternate"}
+            origins={[
+              { address: startAddress, lat: startLat, lng: startLng },
+              { address: endAddress, lat: endLat, lng: endLng }
+            ]}
+            travelMode={isTravelMode(travelMode) ? travelMode : undefined}
+            objective={isMeetingObjective(objective) ? objective : undefined}
+            avoid={parseRouteAvoidances(avoid)}
+            selectedRouteIndex={parseRouteIndex(selectedRoute)}
             onRouteSelect={() => {}}
           />
         </Suspense>
@@ -5,8 +5,13 @@ import { useRouter } from "next/navigation"
 import { SelectSearch } from "@/db/schema"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent } from "@/components/ui/card"
-import { MapPin, Clock, ArrowRight, Trash2 } from "lucide-react"
+import { MapPin, Clock, ArrowRight, Trash2, Navigation } from "lucide-react"
 import { deleteSearchAction } from "@/actions/db/searches-actions"
+import DataQualityBadge from "@/components/data-quality-badge"
+import { useUnits } from "@/components/utilities/units-provider"
+import { useI18n } from "@/components/utilities/i18n-provider"
+import { distanceBetween } from "@/lib/geo"
+import { formatDistance } from "@/lib/units"
 import {
   AlertDialog,
   AlertDialogAction,
@@ -30,9 +35,11 @@ export default function SavedSearchesList({
   const router = useRouter()
   const [isDeleting, setIsDeleting] = useState(false)
   const [searchIdToDelete, setSearchIdToDelete] = useState<string | null>(null)
+  const { units } = useUnits()
+  const { locale, t } = useI18n()
 
   const formatDate = (dateString: Date) => {
-    return new Date(dateString).toLocaleDateString("en-US", {
+    return new Date(dateString).toLocaleDateString(locale, {
       year: "numeric",
       month: "short",
       day: "numeric",
@@ -41,10 +48,28 @@ export default function SavedSearchesList({
     })
   }
 
-  const handleUseSearch = (search: SelectSearch) => {
-    router.push(
-      `/meet-me-halfway/results?startLat=${search.startLocationLat}&startLng=${search.startLocationLng}&startAddress=${encodeURIComponent(search.startLocationAddress)}&endLat=${search.endLocationLat}&endLng=${search.endLocationLng}&endAddress=${encodeURIComponent(search.endLocationAddress)}`
+  // Only the start and end positions are kept with a search, so the distance
+  // between them is as the crow flies
+  const formatSearchDistance = (search: SelectSearch) =>
+    formatDistance(
+      distanceBetween(
+        {
+          lat: parseFloat(search.startLocationLat),
+          lng: parseFloat(search.startLocationLng)
+        },
+        {
+          lat: parseFloat(search.endLocationLat),
+          lng: parseFloat(search.endLocationLng)
+        }
+      ),
+      units,
+      t,
+      { straightLine: true }
     )
+
+  // The search page loads every participant, not just the start and end
+  const handleUseSearch = (search: SelectSearch) => {
+    router.push(`/meet-me-halfway/results/${search.id}`)
   }
 
   const handleDeleteSearch = async (id: string) => {
@@ -54,13 +79,13 @@ export default function SavedSearchesList({
       const result = await deleteSearchAction(id)
 
       if (result.isSuccess) {
-        toast.success("Search deleted successfully")
+        toast.success(t("savedSearches.deleted"))
         router.refresh()
       } else {
-        toast.error(`Error deleting search: ${result.message}`)
+        toast.error(t("savedSearches.deleteError", { message: result.message }))
       }
     } catch (error) {
-      toast.error("An error occurred while deleting the search")
+      toast.error(t("savedSearches.deleteFailed"))
       console.error("Error deleting search:", error)
     } finally {
       setIsDeleting(false)
@@ -80,6 +105,7 @@ export default function SavedSearchesList({
                   <span className="text-muted-foreground text-sm">
                     {formatDate(search.createdAt)}
                   </span>
+                  <DataQualityBadge quality={search.dataQuality} />
                 </div>
 
                 <AlertDialog>
@@ -94,18 +120,22 @@ export default function SavedSearchesList({
                   </AlertDialogTrigger>
                   <AlertDialogContent>
                     <AlertDialogHeader>
-                      <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+                      <AlertDialogTitle>
+                        {t("savedSearches.deleteTitle")}
+                      </AlertDialogTitle>
                       <AlertDialogDescription>
-                        This will permanently delete this saved search.
+                        {t("savedSearches.deleteDescription")}
                       </AlertDialogDescription>
                     </AlertDialogHeader>
                     <AlertDialogFooter>
-                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogCancel>
+                        {t("common.cancel")}
+                      </AlertDialogCancel>
                       <AlertDialogAction
                         onClick={() => handleDeleteSearch(search.id)}
                         disabled={isDeleting}
                       >
-                        {isDeleting ? "Deleting..." : "Delete"}
+                        {isDeleting ? t("common.deleting") : t("common.delete")}
                       </AlertDialogAction>
                     </AlertDialogFooter>
                   </AlertDialogContent>
@@ -116,7 +146,9 @@ export default function SavedSearchesList({
                 <div className="flex items-start space-x-2">
                   <MapPin className="mt-1 size-4 text-blue-500" />
                   <div>
-                    <p className="text-sm font-medium">Start Location</p>
+                    <p className="text-sm font-medium">
+                      {t("savedSearches.startLocation")}
+                    </p>
                     <p className="text-muted-foreground text-sm">
                       {search.startLocationAddress}
                     </p>
@@ -126,12 +158,40 @@ export default function SavedSearchesList({
                 <div className="flex items-start space-x-2">
                   <MapPin className="mt-1 size-4 text-red-500" />
                   <div>
-                    <p className="text-sm font-medium">End Location</p>
+                    <p className="text-sm font-medium">
+                      {t("savedSearches.endLocation")}
+                    </p>
                     <p className="text-muted-foreground text-sm">
                       {search.endLocationAddress}
                     </p>
                   </div>
                 </div>
+
+                <div className="flex items-start space-x-2">
+                  <Navigation className="text-muted-foreground mt-1 size-4" />
+                  <div>
+                    <p className="text-sm font-medium">
+                      {t("savedSearches.startToEnd")}
+                    </p>
+                    <p className="text-muted-foreground text-sm">
+                      {formatSearchDistance(search)}
+                    </p>
+                  </div>
+                </div>
+
+                {search.midpointName && (
+                  <div className="flex items-start space-x-2">
+                    <MapPin className="mt-1 size-4 text-green-500" />
+                    <div>
+                      <p className="text-sm font-medium">
+                        {t("savedSearches.meetingPoint")}
+                      </p>
+                      <p className="text-muted-foreground text-sm">
+                        {t("common.near", { place: search.midpointName })}
+                      </p>
+                    </div>
+                  </div>
+                )}
               </div>
 
               <div className="mt-2 flex justify-end">
@@ -141,7 +201,7 @@ export default function SavedSearchesList({
                   className="flex items-center space-x-1"
                   onClick={() => handleUseSearch(search)}
                 >
-                  <span>Use This Search</span>
+                  <span>{t("savedSearches.use")}</span>
                   <ArrowRight className="ml-1 size-4" />
                 </Button>
               </div>
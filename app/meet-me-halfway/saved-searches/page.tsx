@@ -3,6 +3,7 @@
 import { Suspense } from "react"
 import { auth } from "@clerk/nextjs/server"
 import { getSearchesAction } from "@/actions/db/searches-actions"
+import { getTranslator } from "@/lib/i18n/server"
 import SavedSearchesList from "./_components/saved-searches-list"
 import {
   Card,
@@ -13,16 +14,18 @@ import {
 } from "@/components/ui/card"
 
 export default async function SavedSearchesPage() {
+  const t = await getTranslator()
+
   return (
     <div className="container mx-auto px-4 py-8">
-      <h1 className="mb-8 text-center text-3xl font-bold">Saved Searches</h1>
+      <h1 className="mb-8 text-center text-3xl font-bold">
+        {t("savedSearches.title")}
+      </h1>
 
       <Card className="mx-auto max-w-4xl">
         <CardHeader>
-          <CardTitle>Your Saved Searches</CardTitle>
-          <CardDescription>
-            View and reuse your previous searches
-          </CardDescription>
+          <CardTitle>{t("savedSearches.cardTitle")}</CardTitle>
+          <CardDescription>{t("savedSearches.description")}</CardDescription>
         </CardHeader>
         <CardContent>
           <Suspense fallback={<SavedSearchesSkeleton />}>
@@ -36,13 +39,12 @@ export default async function SavedSearchesPage() {
 
 async function SavedSearchesFetcher() {
   const { userId } = await auth()
+  const t = await getTranslator()
 
   if (!userId) {
     return (
       <div className="py-8 text-center">
-        <p className="text-muted-foreground">
-          Please sign in to view your saved searches.
-        </p>
+        <p className="text-muted-foreground">{t("savedSearches.signIn")}</p>
       </div>
     )
   }
@@ -53,7 +55,7 @@ async function SavedSearchesFetcher() {
     return (
       <div className="py-8 text-center">
         <p className="text-muted-foreground">
-          Error loading saved searches: {searchesResult.message}
+          {t("savedSearches.loadFailed", { message: searchesResult.message })}
         </p>
       </div>
     )
@@ -62,12 +64,9 @@ async function SavedSearchesFetcher() {
   if (searchesResult.data.length === 0) {
     return (
       <div className="py-8 text-center">
-        <p className="text-muted-foreground">
-          You don't have any saved searches yet.
-        </p>
+        <p className="text-muted-foreground">{t("savedSearches.empty")}</p>
         <p className="text-muted-foreground mt-2">
-          When you search for meeting points, they will be saved here for future
-          reference.
+          {t("savedSearches.emptyHint")}
         </p>
       </div>
     )
@@ -0,0 +1,55 @@
+/*
+<ai_context>
+This client component flags results whose travel times and distances are estimates.
+</ai_context>
+*/
+
+"use client"
+
+import { DataQuality } from "@/types"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { useI18n } from "@/components/utilities/i18n-provider"
+import { AlertTriangle, RotateCw } from "lucide-react"
+
+interface DataQualityBadgeProps {
+  quality: DataQuality
+  // Shows a retry button next to the badge when provided
+  onRetry?: () => void
+  isRetrying?: boolean
+}
+
+export default function DataQualityBadge({
+  quality,
+  onRetry,
+  isRetrying = false
+}: DataQualityBadgeProps) {
+  const { t } = useI18n()
+
+  if (quality !== "estimated") return null
+
+  return (
+    <div className="flex items-center gap-2">
+      <Badge
+        variant="outline"
+        className="gap-1 border-amber-500 bg-amber-50 text-amber-700"
+        title={t("dataQuality.estimatedHint")}
+      >
+        <AlertTriangle className="size-3" />
+        {t("dataQuality.estimated")}
+      </Badge>
+      {onRetry && (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={onRetry}
+          disabled={isRetrying}
+          className="flex items-center gap-1"
+        >
+          <RotateCw className={`size-3 ${isRetrying ? "animate-spin" : ""}`} />
+          {t("common.retry")}
+        </Button>
+      )}
+    </div>
+  )
+}
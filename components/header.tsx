@@ -18,6 +18,8 @@ import { Menu, Rocket, X } from "lucide-react"
 import Link from "next/link"
 import { useEffect, useState } from "react"
 import { ThemeSwitcher } from "./utilities/theme-switcher"
+import { LocaleSwitcher } from "./utilities/locale-switcher"
+import { UnitSwitcher } from "./utilities/unit-switcher"
 
 const navLinks = [
   { href: "/about", label: "About" },
@@ -89,6 +91,8 @@ export default function Header() {
         </nav>
 
         <div className="flex items-center space-x-4">
+          <LocaleSwitcher />
+          <UnitSwitcher />
           <ThemeSwitcher />
 
           <SignedOut>
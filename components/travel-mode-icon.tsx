@@ -0,0 +1,28 @@
+/*
+<ai_context>
+This client component renders the icon for a travel mode.
+</ai_context>
+*/
+
+"use client"
+
+import { TravelMode } from "@/types"
+import { Bike, Car, Footprints, LucideProps } from "lucide-react"
+
+interface TravelModeIconProps extends LucideProps {
+  mode: TravelMode
+}
+
+export default function TravelModeIcon({
+  mode,
+  ...props
+}: TravelModeIconProps) {
+  switch (mode) {
+    case "cycling":
+      return <Bike {...props} />
+    case "walking":
+      return <Footprints {...props} />
+    default:
+      return <Car {...props} />
+  }
+}
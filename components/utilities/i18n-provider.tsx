@@ -0,0 +1,65 @@
+/*
+<ai_context>
+This client component provides the user's language and its messages to the app.
+</ai_context>
+*/
+
+"use client"
+
+import { createContext, useContext, useEffect, useMemo, useState } from "react"
+import { useRouter } from "next/navigation"
+import { Locale } from "@/types"
+import {
+  DEFAULT_LOCALE,
+  LOCALE_COOKIE,
+  Translator,
+  createTranslator
+} from "@/lib/i18n"
+
+interface I18nContextValue {
+  locale: Locale
+  t: Translator
+  setLocale: (locale: Locale) => void
+}
+
+const I18nContext = createContext<I18nContextValue>({
+  locale: DEFAULT_LOCALE,
+  t: createTranslator(DEFAULT_LOCALE),
+  setLocale: () => {}
+})
+
+const LOCALE_COOKIE_MAX_AGE = 60 * 60 * 24 * 365
+
+interface I18nProviderProps {
+  // The language the server rendered the page in
+  locale: Locale
+  children: React.ReactNode
+}
+
+// A language picked here is kept in a cookie, and the page is refreshed so
+// server-rendered parts and server actions switch to it too
+export function I18nProvider({ locale, children }: I18nProviderProps) {
+  const router = useRouter()
+  const [current, setCurrent] = useState<Locale>(locale)
+
+  useEffect(() => {
+    setCurrent(locale)
+  }, [locale])
+
+  const t = useMemo(() => createTranslator(current), [current])
+
+  const setLocale = (next: Locale) => {
+    setCurrent(next)
+    document.cookie = `${LOCALE_COOKIE}=${next}; path=/; max-age=${LOCALE_COOKIE_MAX_AGE}; samesite=lax`
+    document.documentElement.lang = next
+    router.refresh()
+  }
+
+  return (
+    <I18nContext.Provider value={{ locale: current, t, setLocale }}>
+      {children}
+    </I18nContext.Provider>
+  )
+}
+
+export const useI18n = () => useContext(I18nContext)
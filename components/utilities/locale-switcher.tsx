@@ -0,0 +1,41 @@
+/*
+<ai_context>
+This client component switches the language of the app.
+</ai_context>
+*/
+
+"use client"
+
+import { LOCALES, LOCALE_LABELS, isLocale } from "@/lib/i18n"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select"
+import { useI18n } from "./i18n-provider"
+
+export const LocaleSwitcher = () => {
+  const { locale, setLocale, t } = useI18n()
+
+  return (
+    <Select
+      value={locale}
+      onValueChange={value => {
+        if (isLocale(value)) setLocale(value)
+      }}
+    >
+      <SelectTrigger className="h-9 w-[120px]" aria-label={t("locale.label")}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {LOCALES.map(option => (
+          <SelectItem key={option} value={option} lang={option}>
+            {LOCALE_LABELS[option]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
@@ -7,15 +7,32 @@ This client component provides the providers for the app.
 "use client"
 
 import { TooltipProvider } from "@/components/ui/tooltip"
+import { Locale, UnitSystem } from "@/types"
 import { ThemeProvider as NextThemesProvider } from "next-themes"
 import { ThemeProviderProps } from "next-themes/dist/types"
 import { CSPostHogProvider } from "./posthog/posthog-provider"
+import { I18nProvider } from "./i18n-provider"
+import { UnitsProvider } from "./units-provider"
 
-export const Providers = ({ children, ...props }: ThemeProviderProps) => {
+interface ProvidersProps extends ThemeProviderProps {
+  locale: Locale
+  profileUnits?: UnitSystem | null
+}
+
+export const Providers = ({
+  children,
+  locale,
+  profileUnits,
+  ...props
+}: ProvidersProps) => {
   return (
     <NextThemesProvider {...props}>
       <TooltipProvider>
-        <CSPostHogProvider>{children}</CSPostHogProvider>
+        <I18nProvider locale={locale}>
+          <UnitsProvider profileUnits={profileUnits}>
+            <CSPostHogProvider>{children}</CSPostHogProvider>
+          </UnitsProvider>
+        </I18nProvider>
       </TooltipProvider>
     </NextThemesProvider>
   )
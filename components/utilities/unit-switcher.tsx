@@ -0,0 +1,36 @@
+/*
+<ai_context>
+This client component switches distances between kilometres and miles.
+</ai_context>
+*/
+
+"use client"
+
+import { UNIT_SYSTEMS, UNIT_SYSTEM_LABELS, isUnitSystem } from "@/lib/units"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { useI18n } from "./i18n-provider"
+import { useUnits } from "./units-provider"
+
+export const UnitSwitcher = () => {
+  const { units, setUnits } = useUnits()
+  const { t } = useI18n()
+
+  return (
+    <ToggleGroup
+      type="single"
+      size="sm"
+      variant="outline"
+      value={units}
+      onValueChange={value => {
+        if (isUnitSystem(value)) setUnits(value)
+      }}
+      aria-label={t("units.label")}
+    >
+      {UNIT_SYSTEMS.map(system => (
+        <ToggleGroupItem key={system} value={system}>
+          {UNIT_SYSTEM_LABELS[system]}
+        </ToggleGroupItem>
+      ))}
+    </ToggleGroup>
+  )
+}
@@ -0,0 +1,76 @@
+/*
+<ai_context>
+This client component provides the user's distance unit preference to the app.
+</ai_context>
+*/
+
+"use client"
+
+import { createContext, useContext, useEffect, useState } from "react"
+import { useAuth } from "@clerk/nextjs"
+import { UnitSystem } from "@/types"
+import {
+  DEFAULT_UNIT_SYSTEM,
+  UNITS_STORAGE_KEY,
+  getLocaleUnitSystem,
+  isUnitSystem
+} from "@/lib/units"
+import { updateProfileAction } from "@/actions/db/profiles-actions"
+
+interface UnitsContextValue {
+  units: UnitSystem
+  setUnits: (units: UnitSystem) => void
+}
+
+const UnitsContext = createContext<UnitsContextValue>({
+  units: DEFAULT_UNIT_SYSTEM,
+  setUnits: () => {}
+})
+
+interface UnitsProviderProps {
+  // The signed-in user's saved preference, if they have one
+  profileUnits?: UnitSystem | null
+  children: React.ReactNode
+}
+
+// Signed-in users' preference is saved on their profile; guests' is kept in
+// the browser. Without either, the browser's locale decides.
+export function UnitsProvider({ profileUnits, children }: UnitsProviderProps) {
+  const { userId } = useAuth()
+  const [units, setUnitsState] = useState<UnitSystem>(
+    profileUnits || DEFAULT_UNIT_SYSTEM
+  )
+
+  useEffect(() => {
+    if (profileUnits) {
+      setUnitsState(profileUnits)
+      return
+    }
+
+    const stored = localStorage.getItem(UNITS_STORAGE_KEY)
+    setUnitsState(
+      isUnitSystem(stored) ? stored : getLocaleUnitSystem(navigator.language)
+    )
+  }, [profileUnits])
+
+  const setUnits = (next: UnitSystem) => {
+    setUnitsState(next)
+    localStorage.setItem(UNITS_STORAGE_KEY, next)
+
+    if (userId) {
+      updateProfileAction(userId, { units: next }).then(result => {
+        if (!result.isSuccess) {
+          console.error("Error saving unit preference:", result.message)
+        }
+      })
+    }
+  }
+
+  return (
+    <UnitsContext.Provider value={{ units, setUnits }}>
+      {children}
+    </UnitsContext.Provider>
+  )
+}
+
+export const useUnits = () => useContext(UnitsContext)
@@ -6,8 +6,10 @@ Initializes the database connection and schema for the app.
 
 import {
   locationsTable,
+  participantsTable,
   poisTable,
   profilesTable,
+  providerCacheTable,
   searchesTable,
   todosTable
 } from "@/db/schema"
@@ -22,7 +24,9 @@ const schema = {
   todos: todosTable,
   locations: locationsTable,
   searches: searchesTable,
-  pois: poisTable
+  pois: poisTable,
+  participants: participantsTable,
+  providerCache: providerCacheTable
 }
 
 const client = postgres(process.env.DATABASE_URL!)
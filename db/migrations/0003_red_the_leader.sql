@@ -0,0 +1,7 @@
+DO $$ BEGIN
+ CREATE TYPE "public"."travel_mode" AS ENUM('driving', 'cycling', 'walking');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+ALTER TABLE "searches" ADD COLUMN "travel_mode" "travel_mode" DEFAULT 'driving' NOT NULL;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "participants" ADD COLUMN "travel_mode" "travel_mode" DEFAULT 'driving' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,7 @@
+DO $$ BEGIN
+ CREATE TYPE "public"."data_quality" AS ENUM('routed', 'estimated');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+ALTER TABLE "searches" ADD COLUMN "data_quality" "data_quality" DEFAULT 'routed' NOT NULL;
\ No newline at end of file
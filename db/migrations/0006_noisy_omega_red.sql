@@ -0,0 +1,8 @@
+CREATE TABLE IF NOT EXISTS "provider_cache" (
+	"key" text PRIMARY KEY NOT NULL,
+	"service" text NOT NULL,
+	"data" jsonb NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
@@ -0,0 +1,7 @@
+DO $$ BEGIN
+ CREATE TYPE "public"."meeting_objective" AS ENUM('equalTime', 'totalTime', 'longestTrip');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+ALTER TABLE "searches" ADD COLUMN "objective" "meeting_objective" DEFAULT 'equalTime' NOT NULL;
\ No newline at end of file
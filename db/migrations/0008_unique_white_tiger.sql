@@ -0,0 +1 @@
+ALTER TABLE "participants" ADD COLUMN "weight" integer DEFAULT 50 NOT NULL;
\ No newline at end of file
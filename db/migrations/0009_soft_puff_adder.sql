@@ -0,0 +1,7 @@
+DO $$ BEGIN
+ CREATE TYPE "public"."route_avoidance" AS ENUM('tolls', 'highways', 'ferries');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+ALTER TABLE "searches" ADD COLUMN "avoid" route_avoidance[] DEFAULT '{}' NOT NULL;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "searches" ADD COLUMN "midpoint_name" text;
\ No newline at end of file
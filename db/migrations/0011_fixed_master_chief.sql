@@ -0,0 +1,7 @@
+DO $$ BEGIN
+ CREATE TYPE "public"."unit_system" AS ENUM('metric', 'imperial');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+ALTER TABLE "profiles" ADD COLUMN "units" "unit_system";
\ No newline at end of file
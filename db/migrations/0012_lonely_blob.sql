@@ -0,0 +1,4 @@
+ALTER TYPE "poi_type" ADD VALUE 'cinema';--> statement-breakpoint
+ALTER TYPE "poi_type" ADD VALUE 'theatre';--> statement-breakpoint
+ALTER TYPE "poi_type" ADD VALUE 'museum';--> statement-breakpoint
+ALTER TYPE "poi_type" ADD VALUE 'hotel';
\ No newline at end of file
@@ -9,3 +9,5 @@ export * from "./todos-schema"
 export * from "./locations-schema"
 export * from "./searches-schema"
 export * from "./pois-schema"
+export * from "./participants-schema"
+export * from "./provider-cache-schema"
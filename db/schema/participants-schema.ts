@@ -0,0 +1,24 @@
+import { integer, pgTable, text, timestamp, uuid } from "drizzle-orm/pg-core"
+import { searchesTable, travelModeEnum } from "./searches-schema"
+
+export const participantsTable = pgTable("participants", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  searchId: uuid("search_id")
+    .references(() => searchesTable.id, { onDelete: "cascade" })
+    .notNull(),
+  position: integer("position").notNull(),
+  address: text("address").notNull(),
+  latitude: text("latitude").notNull(),
+  longitude: text("longitude").notNull(),
+  travelMode: travelModeEnum("travel_mode").notNull().default("driving"),
+  // Share of the travel relative to the other participants
+  weight: integer("weight").notNull().default(50),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at")
+    .defaultNow()
+    .notNull()
+    .$onUpdate(() => new Date())
+})
+
+export type InsertParticipant = typeof participantsTable.$inferInsert
+export type SelectParticipant = typeof participantsTable.$inferSelect
@@ -7,6 +7,10 @@ export const poiTypeEnum = pgEnum("poi_type", [
   "park",
   "bar",
   "library",
+  "cinema",
+  "theatre",
+  "museum",
+  "hotel",
   "other"
 ])
 
@@ -8,11 +8,15 @@ import { pgEnum, pgTable, text, timestamp } from "drizzle-orm/pg-core"
 
 export const membershipEnum = pgEnum("membership", ["free", "pro"])
 
+export const unitSystemEnum = pgEnum("unit_system", ["metric", "imperial"])
+
 export const profilesTable = pgTable("profiles", {
   userId: text("user_id").primaryKey().notNull(),
   membership: membershipEnum("membership").notNull().default("free"),
   stripeCustomerId: text("stripe_customer_id"),
   stripeSubscriptionId: text("stripe_subscription_id"),
+  // Units for distances; unset follows the browser's locale
+  units: unitSystemEnum("units"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at")
     .defaultNow()
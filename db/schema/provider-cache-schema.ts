@@ -0,0 +1,18 @@
+import { jsonb, pgTable, text, timestamp } from "drizzle-orm/pg-core"
+
+// Responses from routing and geocoding services, shared by every server
+// instance and kept across deployments
+export const providerCacheTable = pgTable("provider_cache", {
+  key: text("key").primaryKey(),
+  service: text("service").notNull(),
+  data: jsonb("data").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at")
+    .defaultNow()
+    .notNull()
+    .$onUpdate(() => new Date())
+})
+
+export type InsertProviderCacheEntry = typeof providerCacheTable.$inferInsert
+export type SelectProviderCacheEntry = typeof providerCacheTable.$inferSelect
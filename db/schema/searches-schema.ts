@@ -1,4 +1,24 @@
-import { pgTable, text, timestamp, uuid } from "drizzle-orm/pg-core"
+import { pgEnum, pgTable, text, timestamp, uuid } from "drizzle-orm/pg-core"
+
+export const travelModeEnum = pgEnum("travel_mode", [
+  "driving",
+  "cycling",
+  "walking"
+])
+
+export const meetingObjectiveEnum = pgEnum("meeting_objective", [
+  "equalTime",
+  "totalTime",
+  "longestTrip"
+])
+
+export const routeAvoidanceEnum = pgEnum("route_avoidance", [
+  "tolls",
+  "highways",
+  "ferries"
+])
+
+export const dataQualityEnum = pgEnum("data_quality", ["routed", "estimated"])
 
 export const searchesTable = pgTable("searches", {
   id: uuid("id").defaultRandom().primaryKey(),
@@ -11,6 +31,14 @@ export const searchesTable = pgTable("searches", {
   endLocationLng: text("end_location_lng").notNull(),
   midpointLat: text("midpoint_lat").notNull(),
   midpointLng: text("midpoint_lng").notNull(),
+  // Place the meeting point lies in, e.g. "Princeton, NJ"
+  midpointName: text("midpoint_name"),
+  travelMode: travelModeEnum("travel_mode").notNull().default("driving"),
+  objective: meetingObjectiveEnum("objective").notNull().default("equalTime"),
+  // Road features the routes were asked to avoid
+  avoid: routeAvoidanceEnum("avoid").array().notNull().default([]),
+  // Whether the midpoint was placed using estimated travel times
+  dataQuality: dataQualityEnum("data_quality").notNull().default("routed"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at")
     .defaultNow()
@@ -0,0 +1,40 @@
+/*
+<ai_context>
+Contains the settings and helpers for suggesting addresses while typing.
+</ai_context>
+*/
+
+import { Location } from "@/types"
+
+// How long typing has to pause before suggestions are fetched, in ms
+export const AUTOCOMPLETE_DEBOUNCE_MS = 300
+
+// Shortest query worth asking a geocoder about
+export const MIN_AUTOCOMPLETE_LENGTH = 3
+
+// Most suggestions shown from the geocoder and from saved locations
+export const MAX_GEOCODER_SUGGESTIONS = 5
+export const MAX_SAVED_SUGGESTIONS = 3
+
+// Saved locations whose name or address contains the query, names that
+// start with it first. An empty query matches every saved location.
+export function matchSavedLocations(
+  locations: Location[],
+  query: string,
+  limit: number = MAX_SAVED_SUGGESTIONS
+): Location[] {
+  const normalized = query.trim().toLowerCase()
+
+  return locations
+    .filter(
+      location =>
+        location.name.toLowerCase().includes(normalized) ||
+        location.address.toLowerCase().includes(normalized)
+    )
+    .sort(
+      (a, b) =>
+        Number(b.name.toLowerCase().startsWith(normalized)) -
+        Number(a.name.toLowerCase().startsWith(normalized))
+    )
+    .slice(0, limit)
+}
@@ -0,0 +1,44 @@
+/*
+<ai_context>
+Contains the road features a search can ask its routes to avoid.
+</ai_context>
+*/
+
+import { RouteAvoidance } from "@/types"
+import { Translator } from "@/lib/i18n"
+
+export const ROUTE_AVOIDANCES: RouteAvoidance[] = [
+  "tolls",
+  "highways",
+  "ferries"
+]
+
+export function isRouteAvoidance(value: unknown): value is RouteAvoidance {
+  return ROUTE_AVOIDANCES.includes(value as RouteAvoidance)
+}
+
+// Reads a comma separated list such as "tolls,ferries", dropping unknown values
+export function parseRouteAvoidances(
+  value: string | null | undefined
+): RouteAvoidance[] {
+  if (!value) return []
+  const requested = value.split(",").map(part => part.trim())
+  return ROUTE_AVOIDANCES.filter(avoidance => requested.includes(avoidance))
+}
+
+// Keeps the requested avoidances a provider supports, in canonical order
+export function getAppliedAvoidances(
+  requested: RouteAvoidance[] = [],
+  supported: RouteAvoidance[]
+): RouteAvoidance[] {
+  return ROUTE_AVOIDANCES.filter(
+    avoidance => requested.includes(avoidance) && supported.includes(avoidance)
+  )
+}
+
+export function formatRouteAvoidances(
+  avoid: RouteAvoidance[],
+  t: Translator
+): string {
+  return avoid.map(avoidance => t(`avoidance.${avoidance}`)).join(", ")
+}
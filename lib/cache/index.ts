@@ -0,0 +1,180 @@
+/*
+<ai_context>
+Caches responses from routing and geocoding services in a bounded in-memory
+LRU, backed by a Postgres table shared between server instances.
+</ai_context>
+*/
+
+import { createHash } from "crypto"
+import { CacheStats, CachedServiceName, Fetcher } from "@/types"
+import { createLruCache } from "./lru-cache"
+import { CacheEntry, CacheStore } from "./postgres-store"
+
+const HOUR = 60 * 60 * 1000
+const DAY = 24 * HOUR
+
+// How long each service's responses stay fresh. Places rarely move, road
+// networks change now and then, and nearby businesses open and close.
+export const CACHE_TTLS: Record<CachedServiceName, number> = {
+  locationiq: 30 * DAY,
+  nominatim: 30 * DAY,
+  photon: 30 * DAY,
+  osrm: 7 * DAY,
+  graphhopper: 7 * DAY,
+  valhalla: 7 * DAY,
+  "locationiq-nearby": DAY,
+  "locationiq-autocomplete": DAY,
+  "photon-autocomplete": DAY,
+  overpass: DAY
+}
+
+// Answers that come with a success status but report a failure, and so are
+// never cached. Overpass adds a remark when a query timed out or ran out of
+// memory, and returns whatever it had found by then.
+const isFailedAnswer: Partial<
+  Record<CachedServiceName, (data: any) => boolean>
+> = {
+  overpass: data => typeof data?.remark === "string"
+}
+
+// Query parameters that carry credentials rather than the request itself
+const SECRET_PARAMS = ["key", "api_key", "apikey", "access_token", "token"]
+
+// Identifies a request without the credentials it was made with, so keys
+// never reach the cache table and rotating a key keeps the cache warm
+export function getCacheKey(service: CachedServiceName, url: string): string {
+  let normalized = url
+
+  try {
+    const parsed = new URL(url)
+    SECRET_PARAMS.forEach(param => parsed.searchParams.delete(param))
+    parsed.searchParams.sort()
+    normalized = parsed.toString()
+  } catch {
+    // Not a full URL; use it as it is
+  }
+
+  return `${service}:${createHash("sha256").update(normalized).digest("hex")}`
+}
+
+const toResponse = (data: unknown) =>
+  new Response(JSON.stringify(data), {
+    status: 200,
+    headers: { "Content-Type": "application/json" }
+  })
+
+interface ProviderCacheOptions {
+  // Shared store behind the in-memory cache; memory only when omitted
+  store?: CacheStore
+  // Most responses kept in memory by each server instance
+  maxEntries?: number
+  ttls?: Record<CachedServiceName, number>
+  // Writes between sweeps of expired entries from the store
+  pruneInterval?: number
+}
+
+export interface ProviderCache {
+  // Wraps a fetcher so the service's successful JSON responses are cached
+  wrap(service: CachedServiceName, fetcher: Fetcher): Fetcher
+  getStats(): Partial<Record<CachedServiceName, CacheStats>>
+}
+
+// Reads check memory first, then the store. Failures of the store are logged
+// and treated as misses, so the cache can never take the services down.
+export function createProviderCache({
+  store,
+  maxEntries = 500,
+  ttls = CACHE_TTLS,
+  pruneInterval = 100
+}: ProviderCacheOptions = {}): ProviderCache {
+  const memory = createLruCache<CacheEntry>(maxEntries)
+  const stats: Partial<Record<CachedServiceName, CacheStats>> = {}
+  let writes = 0
+
+  const getServiceStats = (service: CachedServiceName) => {
+    if (!stats[service]) {
+      stats[service] = { memoryHits: 0, storeHits: 0, misses: 0 }
+    }
+    return stats[service]!
+  }
+
+  const read = async (
+    service: CachedServiceName,
+    key: string
+  ): Promise<CacheEntry | null> => {
+    const cached = memory.get(key)
+    if (cached && cached.expiresAt.getTime() > Date.now()) {
+      getServiceStats(service).memoryHits++
+      return cached
+    }
+    if (cached) memory.delete(key)
+
+    if (!store) return null
+
+    try {
+      const stored = await store.get(key)
+      if (stored) {
+        memory.set(key, stored)
+        getServiceStats(service).storeHits++
+      }
+      return stored
+    } catch (error) {
+      console.warn("Provider cache store unavailable:", error)
+      return null
+    }
+  }
+
+  const write = async (
+    service: CachedServiceName,
+    key: string,
+    entry: CacheEntry
+  ) => {
+    memory.set(key, entry)
+    if (!store) return
+
+    try {
+      await store.set(key, service, entry)
+      if (++writes % pruneInterval === 0) await store.prune()
+    } catch (error) {
+      console.warn("Provider cache store unavailable:", error)
+    }
+  }
+
+  return {
+    wrap(service, fetcher) {
+      return async (url, options) => {
+        const key = getCacheKey(service, url)
+        const cached = await read(service, key)
+        if (cached) return toResponse(cached.data)
+
+        getServiceStats(service).misses++
+        const response = await fetcher(url, options)
+
+        if (response.ok) {
+          try {
+            const data = await response.clone().json()
+            if (isFailedAnswer[service]?.(data)) return response
+
+            await write(service, key, {
+              data,
+              expiresAt: new Date(Date.now() + ttls[service])
+            })
+          } catch (error) {
+            console.error("Error caching response:", error)
+          }
+        }
+
+        return response
+      }
+    },
+
+    getStats() {
+      return Object.fromEntries(
+        Object.entries(stats).map(([service, counts]) => [
+          service,
+          { ...counts }
+        ])
+      )
+    }
+  }
+}
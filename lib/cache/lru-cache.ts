@@ -0,0 +1,46 @@
+/*
+<ai_context>
+Contains a bounded in-memory cache that evicts the least recently used entry.
+</ai_context>
+*/
+
+export interface LruCache<V> {
+  get(key: string): V | undefined
+  set(key: string, value: V): void
+  delete(key: string): void
+  size(): number
+}
+
+// Maps keep insertion order, so re-inserting an entry on every read leaves
+// the least recently used entry first in line for eviction
+export function createLruCache<V>(maxEntries: number): LruCache<V> {
+  const entries = new Map<string, V>()
+
+  return {
+    get(key) {
+      if (!entries.has(key)) return undefined
+
+      const value = entries.get(key)!
+      entries.delete(key)
+      entries.set(key, value)
+      return value
+    },
+
+    set(key, value) {
+      entries.delete(key)
+      entries.set(key, value)
+
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!)
+      }
+    },
+
+    delete(key) {
+      entries.delete(key)
+    },
+
+    size() {
+      return entries.size
+    }
+  }
+}
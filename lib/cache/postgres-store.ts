@@ -0,0 +1,62 @@
+/*
+<ai_context>
+Stores provider responses in Postgres so they are shared between server
+instances and survive deployments.
+</ai_context>
+*/
+
+import { db } from "@/db/db"
+import { providerCacheTable } from "@/db/schema"
+import { CachedServiceName } from "@/types"
+import { and, eq, gt, lte } from "drizzle-orm"
+
+export interface CacheEntry {
+  data: unknown
+  expiresAt: Date
+}
+
+export interface CacheStore {
+  // The entry for a key, or null when it is missing or has expired
+  get(key: string): Promise<CacheEntry | null>
+  set(key: string, service: CachedServiceName, entry: CacheEntry): Promise<void>
+  // Removes every expired entry
+  prune(): Promise<void>
+}
+
+export function createPostgresCacheStore(): CacheStore {
+  return {
+    async get(key) {
+      const [row] = await db
+        .select({
+          data: providerCacheTable.data,
+          expiresAt: providerCacheTable.expiresAt
+        })
+        .from(providerCacheTable)
+        .where(
+          and(
+            eq(providerCacheTable.key, key),
+            gt(providerCacheTable.expiresAt, new Date())
+          )
+        )
+        .limit(1)
+
+      return row ?? null
+    },
+
+    async set(key, service, { data, expiresAt }) {
+      await db
+        .insert(providerCacheTable)
+        .values({ key, service, data, expiresAt })
+        .onConflictDoUpdate({
+          target: providerCacheTable.key,
+          set: { data, expiresAt }
+        })
+    },
+
+    async prune() {
+      await db
+        .delete(providerCacheTable)
+        .where(lte(providerCacheTable.expiresAt, new Date()))
+    }
+  }
+}
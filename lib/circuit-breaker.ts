@@ -0,0 +1,75 @@
+/*
+<ai_context>
+Contains a circuit breaker for skipping external services that keep failing.
+</ai_context>
+*/
+
+import { CircuitState } from "@/types"
+
+interface CircuitBreakerOptions {
+  // Consecutive failures before the circuit opens
+  failureThreshold?: number
+  // How long an open circuit skips the service before letting a trial through
+  cooldownMs?: number
+}
+
+export interface CircuitBreaker {
+  getState(): CircuitState
+  // Whether a request should be attempted right now. A half-open circuit
+  // lets one trial through, so the request's outcome must be recorded.
+  canRequest(): boolean
+  recordSuccess(): void
+  recordFailure(): void
+  // For a request its caller gave up on, which says nothing about the
+  // service; a trial it was making is left to the next request
+  recordAbandoned(): void
+}
+
+// After repeated failures the circuit opens and the service is skipped for a
+// cool-down period. The first request after that is a trial, and the only
+// request let through until it finishes: success closes the circuit again,
+// failure reopens it for another cool-down.
+export function createCircuitBreaker({
+  failureThreshold = 3,
+  cooldownMs = 60 * 1000
+}: CircuitBreakerOptions = {}): CircuitBreaker {
+  let failures = 0
+  let openedAt: number | null = null
+  let isTrialRunning = false
+
+  const getState = (): CircuitState => {
+    if (openedAt === null) return "closed"
+    return Date.now() - openedAt >= cooldownMs ? "half-open" : "open"
+  }
+
+  return {
+    getState,
+
+    canRequest() {
+      const state = getState()
+      if (state === "closed") return true
+      if (state === "open" || isTrialRunning) return false
+
+      isTrialRunning = true
+      return true
+    },
+
+    recordSuccess() {
+      failures = 0
+      openedAt = null
+      isTrialRunning = false
+    },
+
+    recordFailure() {
+      failures++
+      if (isTrialRunning || failures >= failureThreshold) {
+        openedAt = Date.now()
+      }
+      isTrialRunning = false
+    },
+
+    recordAbandoned() {
+      isTrialRunning = false
+    }
+  }
+}
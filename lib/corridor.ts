@@ -0,0 +1,64 @@
+/*
+<ai_context>
+Contains helpers for searching for points of interest along the stretch of route around the midpoint.
+</ai_context>
+*/
+
+import {
+  LatLng,
+  distanceBetween,
+  getSegmentDistances,
+  interpolateAlongLine
+} from "@/lib/geo"
+
+// Share of the route's length covered by the corridor, centred on the
+// meeting point, and how far either side of the route it reaches (meters)
+export const CORRIDOR_SHARE = 0.2
+export const CORRIDOR_WIDTH = 500
+
+// Points used to describe the corridor's line to Overpass
+const CORRIDOR_POINTS = 20
+
+// Fraction (0-1) of a GeoJSON [lon, lat] line's length at which the vertex
+// nearest to the point lies
+export function getNearestLineFraction(
+  coordinates: [number, number][],
+  point: LatLng
+): number {
+  const distances = getSegmentDistances(coordinates)
+  const total = distances.reduce((sum, d) => sum + d, 0)
+  if (total === 0) return 0
+
+  let nearest = 0
+  let nearestDistance = Infinity
+  coordinates.forEach(([lng, lat], i) => {
+    const distance = distanceBetween(point, { lat, lng })
+    if (distance < nearestDistance) {
+      nearest = i
+      nearestDistance = distance
+    }
+  })
+
+  return distances.slice(0, nearest).reduce((sum, d) => sum + d, 0) / total
+}
+
+// Points along the stretch of route covering the given share of its length,
+// centred on the point nearest the meeting point and kept within the route
+export function getRouteCorridor(
+  coordinates: [number, number][],
+  center: LatLng,
+  share: number = CORRIDOR_SHARE
+): LatLng[] {
+  if (coordinates.length < 2) return []
+
+  const middle = getNearestLineFraction(coordinates, center)
+  const from = Math.min(Math.max(0, middle - share / 2), 1 - share)
+  const to = Math.min(1, from + share)
+
+  return Array.from({ length: CORRIDOR_POINTS }, (_, i) =>
+    interpolateAlongLine(
+      coordinates,
+      from + ((to - from) * i) / (CORRIDOR_POINTS - 1)
+    )
+  ).filter((point): point is LatLng => point !== null)
+}
@@ -0,0 +1,15 @@
+/*
+<ai_context>
+Contains helpers for tracking whether results rely on estimated routing data.
+</ai_context>
+*/
+
+import { DataQuality } from "@/types"
+
+// Results built from several pieces of routing data are only as good as the
+// weakest piece
+export function combineQuality(
+  ...qualities: (DataQuality | undefined)[]
+): DataQuality {
+  return qualities.includes("estimated") ? "estimated" : "routed"
+}
@@ -0,0 +1,26 @@
+/*
+<ai_context>
+Contains helpers for calling external JSON APIs through a shared fetcher.
+</ai_context>
+*/
+
+import { FetchOptions, Fetcher } from "@/types"
+
+// Fetches and parses a JSON response, throwing on HTTP errors so callers can
+// fall back to another service or an estimate
+export async function fetchJson(
+  fetcher: Fetcher,
+  url: string,
+  service: string,
+  options: FetchOptions = {}
+): Promise<any> {
+  const response = await fetcher(url, options)
+
+  if (!response.ok) {
+    throw new Error(
+      `${service} error: ${response.status} ${response.statusText}`
+    )
+  }
+
+  return response.json()
+}
@@ -0,0 +1,102 @@
+/*
+<ai_context>
+Contains geographic helper functions shared by server actions and map components.
+</ai_context>
+*/
+
+export interface LatLng {
+  lat: number
+  lng: number
+}
+
+// Calculates the distance between two points in meters using the Haversine formula
+export function calculateDistance(
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number
+): number {
+  const R = 6371e3 // Earth's radius in meters
+  const φ1 = (lat1 * Math.PI) / 180
+  const φ2 = (lat2 * Math.PI) / 180
+  const Δφ = ((lat2 - lat1) * Math.PI) / 180
+  const Δλ = ((lon2 - lon1) * Math.PI) / 180
+
+  const a =
+    Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
+    Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2)
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
+
+  return R * c
+}
+
+export function distanceBetween(a: LatLng, b: LatLng): number {
+  return calculateDistance(a.lat, a.lng, b.lat, b.lng)
+}
+
+// Returns the point a given fraction (0-1) of the way along a GeoJSON
+// [lon, lat] line, measured by distance
+export function interpolateAlongLine(
+  coordinates: [number, number][],
+  fraction: number
+): LatLng | null {
+  if (!coordinates || coordinates.length === 0) return null
+  if (coordinates.length === 1) {
+    return { lat: coordinates[0][1], lng: coordinates[0][0] }
+  }
+
+  const distances = getSegmentDistances(coordinates)
+  const totalDistance = distances.reduce((sum, d) => sum + d, 0)
+
+  return interpolateByWeights(coordinates, distances, totalDistance * fraction)
+}
+
+// Length in meters of each segment of a GeoJSON [lon, lat] line
+export function getSegmentDistances(coordinates: [number, number][]): number[] {
+  const distances: number[] = []
+
+  for (let i = 1; i < coordinates.length; i++) {
+    distances.push(
+      calculateDistance(
+        coordinates[i - 1][1],
+        coordinates[i - 1][0],
+        coordinates[i][1],
+        coordinates[i][0]
+      )
+    )
+  }
+
+  return distances
+}
+
+// Walks a line whose segments carry arbitrary weights (meters, seconds, ...)
+// and returns the point where the accumulated weight reaches the target
+export function interpolateByWeights(
+  coordinates: [number, number][],
+  weights: number[],
+  target: number
+): LatLng | null {
+  if (!coordinates || coordinates.length === 0) return null
+
+  let covered = 0
+
+  for (let i = 0; i < weights.length && i + 1 < coordinates.length; i++) {
+    const weight = weights[i]
+
+    if (weight > 0 && covered + weight >= target) {
+      const ratio = (target - covered) / weight
+      const [lon1, lat1] = coordinates[i]
+      const [lon2, lat2] = coordinates[i + 1]
+
+      return {
+        lat: lat1 + ratio * (lat2 - lat1),
+        lng: lon1 + ratio * (lon2 - lon1)
+      }
+    }
+
+    covered += weight
+  }
+
+  const last = coordinates[coordinates.length - 1]
+  return { lat: last[1], lng: last[0] }
+}
@@ -0,0 +1,76 @@
+/*
+<ai_context>
+Contains helpers for telling apart the candidate places a geocoder finds for
+a query, and deciding when to ask which one was meant.
+</ai_context>
+*/
+
+import { BoundingBox, GeocodingResponse } from "@/types"
+import { LatLng, distanceBetween } from "@/lib/geo"
+
+// Most candidates asked for and offered to pick from
+export const MAX_GEOCODING_CANDIDATES = 5
+
+// A runner-up at least this share of the best match's importance is as
+// likely to be the place meant
+const AMBIGUOUS_IMPORTANCE_RATIO = 0.8
+
+// Matches closer together than this (meters) are taken to be the same place
+// even when neither lies in the other's bounding box
+const SAME_PLACE_DISTANCE = 1000
+
+const toPoint = (candidate: GeocodingResponse) => ({
+  lat: parseFloat(candidate.lat),
+  lng: parseFloat(candidate.lon)
+})
+
+const isInside = (box: BoundingBox, { lat, lng }: LatLng) =>
+  lat >= box.south && lat <= box.north && lng >= box.west && lng <= box.east
+
+// Whether a candidate is another match for a place already listed, such as a
+// city found both as a boundary and as its centre
+function isSamePlace(a: GeocodingResponse, b: GeocodingResponse): boolean {
+  if (a.boundingBox && isInside(a.boundingBox, toPoint(b))) return true
+  if (b.boundingBox && isInside(b.boundingBox, toPoint(a))) return true
+
+  return distanceBetween(toPoint(a), toPoint(b)) <= SAME_PLACE_DISTANCE
+}
+
+// The candidates with repeat matches for the same place left out, keeping
+// the provider's order
+export function getDistinctCandidates<T extends GeocodingResponse>(
+  candidates: T[]
+): T[] {
+  return candidates.reduce<T[]>(
+    (distinct, candidate) =>
+      distinct.some(kept => isSamePlace(kept, candidate))
+        ? distinct
+        : [...distinct, candidate],
+    []
+  )
+}
+
+// The name a candidate leads with, e.g. "springfield" for "Springfield,
+// Sangamon County, Illinois, United States"
+const getLeadingName = (candidate: GeocodingResponse) =>
+  candidate.display_name.split(",")[0].trim().toLowerCase()
+
+// Whether the best two distinct candidates are too close to call. Providers
+// that rank their matches are trusted unless the runner-up ranks nearly as
+// high; otherwise two places sharing a name are ambiguous.
+export function isAmbiguous(candidates: GeocodingResponse[]): boolean {
+  const [best, next] = candidates
+  if (!best || !next) return false
+
+  if (best.importance !== undefined && next.importance !== undefined) {
+    return next.importance >= best.importance * AMBIGUOUS_IMPORTANCE_RATIO
+  }
+
+  return getLeadingName(best) === getLeadingName(next)
+}
+
+// A readable kind of place, e.g. "Administrative" for "administrative"
+export function formatPlaceType(type: string): string {
+  const words = type.replace(/_/g, " ")
+  return words.charAt(0).toUpperCase() + words.slice(1)
+}
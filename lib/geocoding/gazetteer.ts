@@ -0,0 +1,297 @@
+/*
+<ai_context>
+Contains a small offline list of well-known places for the local geocoder.
+</ai_context>
+*/
+
+export interface GazetteerEntry {
+  name: string
+  // Region or state, used to tell apart places that share a name
+  region: string
+  country: string
+  lat: number
+  lng: number
+}
+
+export const GAZETTEER: GazetteerEntry[] = [
+  {
+    name: "New York",
+    region: "NY",
+    country: "United States",
+    lat: 40.7128,
+    lng: -74.006
+  },
+  {
+    name: "Los Angeles",
+    region: "CA",
+    country: "United States",
+    lat: 34.0522,
+    lng: -118.2437
+  },
+  {
+    name: "Chicago",
+    region: "IL",
+    country: "United States",
+    lat: 41.8781,
+    lng: -87.6298
+  },
+  {
+    name: "Houston",
+    region: "TX",
+    country: "United States",
+    lat: 29.7604,
+    lng: -95.3698
+  },
+  {
+    name: "Phoenix",
+    region: "AZ",
+    country: "United States",
+    lat: 33.4484,
+    lng: -112.074
+  },
+  {
+    name: "Philadelphia",
+    region: "PA",
+    country: "United States",
+    lat: 39.9526,
+    lng: -75.1652
+  },
+  {
+    name: "San Antonio",
+    region: "TX",
+    country: "United States",
+    lat: 29.4241,
+    lng: -98.4936
+  },
+  {
+    name: "San Diego",
+    region: "CA",
+    country: "United States",
+    lat: 32.7157,
+    lng: -117.1611
+  },
+  {
+    name: "Dallas",
+    region: "TX",
+    country: "United States",
+    lat: 32.7767,
+    lng: -96.797
+  },
+  {
+    name: "Austin",
+    region: "TX",
+    country: "United States",
+    lat: 30.2672,
+    lng: -97.7431
+  },
+  {
+    name: "San Jose",
+    region: "CA",
+    country: "United States",
+    lat: 37.3382,
+    lng: -121.8863
+  },
+  {
+    name: "San Francisco",
+    region: "CA",
+    country: "United States",
+    lat: 37.7749,
+    lng: -122.4194
+  },
+  {
+    name: "Seattle",
+    region: "WA",
+    country: "United States",
+    lat: 47.6062,
+    lng: -122.3321
+  },
+  {
+    name: "Denver",
+    region: "CO",
+    country: "United States",
+    lat: 39.7392,
+    lng: -104.9903
+  },
+  {
+    name: "Washington",
+    region: "DC",
+    country: "United States",
+    lat: 38.9072,
+    lng: -77.0369
+  },
+  {
+    name: "Boston",
+    region: "MA",
+    country: "United States",
+    lat: 42.3601,
+    lng: -71.0589
+  },
+  {
+    name: "Nashville",
+    region: "TN",
+    country: "United States",
+    lat: 36.1627,
+    lng: -86.7816
+  },
+  {
+    name: "Portland",
+    region: "OR",
+    country: "United States",
+    lat: 45.5152,
+    lng: -122.6784
+  },
+  {
+    name: "Portland",
+    region: "ME",
+    country: "United States",
+    lat: 43.6591,
+    lng: -70.2568
+  },
+  {
+    name: "Las Vegas",
+    region: "NV",
+    country: "United States",
+    lat: 36.1699,
+    lng: -115.1398
+  },
+  {
+    name: "Atlanta",
+    region: "GA",
+    country: "United States",
+    lat: 33.749,
+    lng: -84.388
+  },
+  {
+    name: "Miami",
+    region: "FL",
+    country: "United States",
+    lat: 25.7617,
+    lng: -80.1918
+  },
+  {
+    name: "Minneapolis",
+    region: "MN",
+    country: "United States",
+    lat: 44.9778,
+    lng: -93.265
+  },
+  {
+    name: "Detroit",
+    region: "MI",
+    country: "United States",
+    lat: 42.3314,
+    lng: -83.0458
+  },
+  {
+    name: "Baltimore",
+    region: "MD",
+    country: "United States",
+    lat: 39.2904,
+    lng: -76.6122
+  },
+  {
+    name: "Pittsburgh",
+    region: "PA",
+    country: "United States",
+    lat: 40.4406,
+    lng: -79.9959
+  },
+  {
+    name: "Salt Lake City",
+    region: "UT",
+    country: "United States",
+    lat: 40.7608,
+    lng: -111.891
+  },
+  {
+    name: "New Orleans",
+    region: "LA",
+    country: "United States",
+    lat: 29.9511,
+    lng: -90.0715
+  },
+  {
+    name: "Toronto",
+    region: "ON",
+    country: "Canada",
+    lat: 43.6532,
+    lng: -79.3832
+  },
+  {
+    name: "Montreal",
+    region: "QC",
+    country: "Canada",
+    lat: 45.5019,
+    lng: -73.5674
+  },
+  {
+    name: "Vancouver",
+    region: "BC",
+    country: "Canada",
+    lat: 49.2827,
+    lng: -123.1207
+  },
+  {
+    name: "Mexico City",
+    region: "CDMX",
+    country: "Mexico",
+    lat: 19.4326,
+    lng: -99.1332
+  },
+  {
+    name: "London",
+    region: "England",
+    country: "United Kingdom",
+    lat: 51.5074,
+    lng: -0.1278
+  },
+  {
+    name: "Paris",
+    region: "Île-de-France",
+    country: "France",
+    lat: 48.8566,
+    lng: 2.3522
+  },
+  {
+    name: "Berlin",
+    region: "Berlin",
+    country: "Germany",
+    lat: 52.52,
+    lng: 13.405
+  },
+  {
+    name: "Madrid",
+    region: "Madrid",
+    country: "Spain",
+    lat: 40.4168,
+    lng: -3.7038
+  },
+  {
+    name: "Rome",
+    region: "Lazio",
+    country: "Italy",
+    lat: 41.9028,
+    lng: 12.4964
+  },
+  {
+    name: "Amsterdam",
+    region: "North Holland",
+    country: "Netherlands",
+    lat: 52.3676,
+    lng: 4.9041
+  },
+  {
+    name: "Tokyo",
+    region: "Tokyo",
+    country: "Japan",
+    lat: 35.6762,
+    lng: 139.6503
+  },
+  {
+    name: "Sydney",
+    region: "NSW",
+    country: "Australia",
+    lat: -33.8688,
+    lng: 151.2093
+  }
+]
@@ -0,0 +1,283 @@
+/*
+<ai_context>
+Builds the ordered geocoder chain from environment configuration and runs
+queries, reverse lookups and autocomplete through it, skipping providers
+whose circuit breaker is open.
+</ai_context>
+*/
+
+import {
+  CachedServiceName,
+  GeocodeOptions,
+  GeocodingProvider,
+  GeocodingProviderName,
+  GeocodingResponse,
+  LookupOptions,
+  PlaceName,
+  ServiceFetchers
+} from "@/types"
+import { CircuitBreaker, createCircuitBreaker } from "@/lib/circuit-breaker"
+import { createLocalGeocodingProvider } from "./local-provider"
+import { createLocationIqProvider } from "./locationiq-provider"
+import { createNominatimProvider } from "./nominatim-provider"
+import { createPhotonProvider } from "./photon-provider"
+
+const GEOCODING_PROVIDER_NAMES: GeocodingProviderName[] = [
+  "locationiq",
+  "nominatim",
+  "photon",
+  "local"
+]
+
+export function isGeocodingProviderName(
+  value: unknown
+): value is GeocodingProviderName {
+  return GEOCODING_PROVIDER_NAMES.includes(value as GeocodingProviderName)
+}
+
+const envUrl = (key: string) =>
+  process.env[key]?.replace(/\/+$/, "") || undefined
+
+function createProvider(
+  name: GeocodingProviderName,
+  fetchers: ServiceFetchers
+): GeocodingProvider | null {
+  switch (name) {
+    case "locationiq": {
+      const apiKey = process.env.NEXT_PUBLIC_LOCATIONIQ_KEY
+      if (!apiKey) {
+        console.warn(
+          "LocationIQ API key is not configured. Skipping LocationIQ."
+        )
+        return null
+      }
+      return createLocationIqProvider({
+        apiKey,
+        fetcher: fetchers("locationiq")
+      })
+    }
+    case "nominatim":
+      return createNominatimProvider({
+        baseUrl: envUrl("NOMINATIM_URL"),
+        fetcher: fetchers("nominatim")
+      })
+    case "photon":
+      return createPhotonProvider({
+        baseUrl: envUrl("PHOTON_URL"),
+        fetcher: fetchers("photon")
+      })
+    case "local":
+      return createLocalGeocodingProvider()
+  }
+}
+
+// The geocoders named in GEOCODING_PROVIDERS (comma-separated, tried in
+// order), or LocationIQ, Nominatim, Photon and the offline list by default
+export function getGeocodingProviders(
+  fetchers: ServiceFetchers
+): GeocodingProvider[] {
+  const names = (
+    process.env.GEOCODING_PROVIDERS || GEOCODING_PROVIDER_NAMES.join(",")
+  )
+    .split(",")
+    .map(name => name.trim().toLowerCase())
+    .filter(Boolean)
+
+  return names.flatMap(name => {
+    if (!isGeocodingProviderName(name)) {
+      console.warn(`Unknown geocoding provider "${name}". Skipping it.`)
+      return []
+    }
+
+    const provider = createProvider(name, fetchers)
+    return provider ? [provider] : []
+  })
+}
+
+// Autocomplete requests go through services of their own, so they are
+// cached and rate limited apart from geocoding on submit
+const AUTOCOMPLETE_SERVICES: Partial<
+  Record<CachedServiceName, CachedServiceName>
+> = {
+  locationiq: "locationiq-autocomplete",
+  photon: "photon-autocomplete"
+}
+
+// The configured geocoders that can suggest addresses while typing, in the
+// same order as the geocoding chain
+export function getAutocompleteProviders(
+  fetchers: ServiceFetchers
+): GeocodingProvider[] {
+  return getGeocodingProviders(service =>
+    fetchers(AUTOCOMPLETE_SERVICES[service] || service)
+  ).filter(provider => provider.autocomplete)
+}
+
+// One breaker per provider for the life of the server process
+const breakers: Partial<Record<GeocodingProviderName, CircuitBreaker>> = {}
+
+function getBreaker(name: GeocodingProviderName): CircuitBreaker {
+  if (!breakers[name]) {
+    breakers[name] = createCircuitBreaker({
+      failureThreshold: 3,
+      cooldownMs: 5 * 60 * 1000
+    })
+  }
+  return breakers[name]!
+}
+
+export interface GeocodingChainResult {
+  provider: GeocodingProviderName
+  results: GeocodingResponse[]
+}
+
+export interface ReverseGeocodingChainResult {
+  provider: GeocodingProviderName
+  place: PlaceName | null
+}
+
+export interface ReverseAddressChainResult {
+  provider: GeocodingProviderName
+  address: string | null
+}
+
+// Asks each provider in turn until one has an answer. Providers that fail
+// count towards opening their circuit; providers with an open circuit are
+// skipped. Returns the first empty answer when every provider that answered
+// found nothing, and throws when none could be reached or the signal is
+// aborted.
+async function askGeocoders<T>(
+  providers: GeocodingProvider[],
+  description: string,
+  ask: (provider: GeocodingProvider) => Promise<T>,
+  hasAnswer: (answer: T) => boolean,
+  signal?: AbortSignal
+): Promise<{ provider: GeocodingProviderName; answer: T }> {
+  const unavailable: GeocodingProviderName[] = []
+  let emptyAnswer: { provider: GeocodingProviderName; answer: T } | null = null
+
+  for (const provider of providers) {
+    const breaker = getBreaker(provider.name)
+
+    if (!breaker.canRequest()) {
+      unavailable.push(provider.name)
+      continue
+    }
+
+    try {
+      const answer = await ask(provider)
+      breaker.recordSuccess()
+
+      if (hasAnswer(answer)) {
+        console.log(
+          `${description} answered by ${provider.name}` +
+            (unavailable.length > 0
+              ? ` (fallback; unavailable: ${unavailable.join(", ")})`
+              : "")
+        )
+        return { provider: provider.name, answer }
+      }
+
+      emptyAnswer = emptyAnswer || { provider: provider.name, answer }
+    } catch (error) {
+      // The caller gave up, which is no fault of the provider's
+      if (signal?.aborted) {
+        breaker.recordAbandoned()
+        throw error
+      }
+
+      breaker.recordFailure()
+      unavailable.push(provider.name)
+      console.warn(`${description} with ${provider.name} failed:`, error)
+    }
+  }
+
+  if (emptyAnswer) return emptyAnswer
+
+  throw new Error(
+    `No geocoding provider available (tried: ${unavailable.join(", ") || "none"})`
+  )
+}
+
+// Matches for a free-text query from the first provider that finds any
+export async function searchGeocoders(
+  providers: GeocodingProvider[],
+  query: string,
+  options: GeocodeOptions = {}
+): Promise<GeocodingChainResult> {
+  const { provider, answer } = await askGeocoders(
+    providers,
+    "Geocoding",
+    geocoder => geocoder.search(query, options),
+    results => results.length > 0,
+    options.signal
+  )
+
+  return { provider, results: answer }
+}
+
+// The place a point lies in, from the first provider that knows one
+export async function reverseGeocoders(
+  providers: GeocodingProvider[],
+  lat: number,
+  lng: number,
+  options: LookupOptions = {}
+): Promise<ReverseGeocodingChainResult> {
+  const { provider, answer } = await askGeocoders(
+    providers,
+    "Reverse geocoding",
+    geocoder => geocoder.reverse(lat, lng, options),
+    place => place !== null,
+    options.signal
+  )
+
+  return { provider, place: answer }
+}
+
+// The full address at a point, from the first provider that has one
+export async function reverseAddressGeocoders(
+  providers: GeocodingProvider[],
+  lat: number,
+  lng: number,
+  options: LookupOptions = {}
+): Promise<ReverseAddressChainResult> {
+  const { provider, answer } = await askGeocoders(
+    providers,
+    "Reverse address lookup",
+    geocoder => geocoder.reverseAddress(lat, lng, options),
+    address => address !== null,
+    options.signal
+  )
+
+  return { provider, address: answer }
+}
+
+// Suggestions for a partly typed query from the first provider that has any,
+// or null when none do. Providers whose circuit is not closed are skipped,
+// leaving the trial of a half-open one to geocoding, and a failed suggestion
+// never counts towards opening one: suggestions are given up on when the
+// rate limit would make them late, and that should not take a provider out
+// of geocoding.
+export async function autocompleteGeocoders(
+  providers: GeocodingProvider[],
+  query: string,
+  options: GeocodeOptions = {}
+): Promise<GeocodingChainResult | null> {
+  for (const provider of providers) {
+    if (
+      !provider.autocomplete ||
+      getBreaker(provider.name).getState() !== "closed"
+    ) {
+      continue
+    }
+
+    try {
+      const results = await provider.autocomplete(query, options)
+      if (results.length > 0) return { provider: provider.name, results }
+    } catch (error) {
+      console.warn(`Autocomplete with ${provider.name} failed:`, error)
+    }
+  }
+
+  return null
+}
@@ -0,0 +1,15 @@
+/*
+<ai_context>
+Contains display names for the places the geocoding providers find.
+</ai_context>
+*/
+
+import { PlaceName } from "@/types"
+
+// A short name for a place, such as "Princeton, NJ", falling back to the
+// country when there is no region
+export function formatPlaceName(place: PlaceName): string {
+  return [place.locality, place.region || place.country]
+    .filter((part, i, parts) => part && parts.indexOf(part) === i)
+    .join(", ")
+}
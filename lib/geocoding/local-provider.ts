@@ -0,0 +1,95 @@
+/*
+<ai_context>
+Contains an offline geocoding provider backed by a built-in gazetteer.
+</ai_context>
+*/
+
+import { GeocodingProvider } from "@/types"
+import { distanceBetween } from "@/lib/geo"
+import { GAZETTEER, GazetteerEntry } from "./gazetteer"
+
+const normalize = (text: string) =>
+  text
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+
+// How well an entry matches a query: 3 when the query mentions the place and
+// its region, 2 when it is just the place name, 1 when it mentions the place
+// among other words (e.g. a street address), 0 otherwise
+function scoreEntry(query: string, entry: GazetteerEntry): number {
+  const padded = ` ${query} `
+
+  if (!padded.includes(` ${normalize(entry.name)} `)) return 0
+  if (padded.includes(` ${normalize(entry.region)} `)) return 3
+
+  return query === normalize(entry.name) ? 2 : 1
+}
+
+const toResponse = (entry: GazetteerEntry) => ({
+  lat: entry.lat.toString(),
+  lon: entry.lng.toString(),
+  display_name: `${entry.name}, ${entry.region}, ${entry.country}`,
+  type: "city"
+})
+
+// Furthest a point may be from a listed place to be named after it, in meters
+const MAX_REVERSE_DISTANCE = 50000
+
+// Only knows a small set of cities, but needs no network. Useful offline and
+// as the last resort when every online geocoder is down.
+export function createLocalGeocodingProvider(): GeocodingProvider {
+  return {
+    name: "local",
+
+    async search(query, { limit = 1 } = {}) {
+      const normalized = normalize(query)
+
+      return GAZETTEER.map(entry => ({
+        entry,
+        score: scoreEntry(normalized, entry)
+      }))
+        .filter(match => match.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit)
+        .map(({ entry }) => toResponse(entry))
+    },
+
+    async reverse(lat, lng) {
+      const nearest = GAZETTEER.map(entry => ({
+        entry,
+        distance: distanceBetween({ lat, lng }, entry)
+      })).sort((a, b) => a.distance - b.distance)[0]
+
+      if (!nearest || nearest.distance > MAX_REVERSE_DISTANCE) return null
+
+      return {
+        locality: nearest.entry.name,
+        region: nearest.entry.region,
+        country: nearest.entry.country
+      }
+    },
+
+    // The list holds no street addresses
+    async reverseAddress() {
+      return null
+    },
+
+    // Places whose name starts with the query, or whose full name does once
+    // the query runs past the place name into its region
+    async autocomplete(query, { limit = 5 } = {}) {
+      const normalized = normalize(query)
+      if (!normalized) return []
+
+      return GAZETTEER.filter(entry => {
+        const name = normalize(entry.name)
+        const fullName = normalize(`${entry.name} ${entry.region}`)
+        return name.startsWith(normalized) || fullName.startsWith(normalized)
+      })
+        .slice(0, limit)
+        .map(toResponse)
+    }
+  }
+}
@@ -0,0 +1,104 @@
+/*
+<ai_context>
+Contains the LocationIQ geocoding provider.
+</ai_context>
+*/
+
+import { Fetcher, GeocodingProvider } from "@/types"
+import {
+  getAddressPlaceName,
+  languageParam,
+  toGeocodingResponse
+} from "./nominatim-provider"
+
+interface LocationIqProviderOptions {
+  apiKey: string
+  fetcher: Fetcher
+}
+
+export function createLocationIqProvider({
+  apiKey,
+  fetcher
+}: LocationIqProviderOptions): GeocodingProvider {
+  return {
+    name: "locationiq",
+
+    async search(query, { limit = 1, language, signal } = {}) {
+      const url = `https://us1.locationiq.com/v1/search.php?key=${apiKey}&q=${encodeURIComponent(
+        query
+      )}&format=json&limit=${limit}${languageParam(language)}`
+
+      const response = await fetcher(url, { signal })
+
+      // LocationIQ answers 404 when nothing matches
+      if (response.status === 404) return []
+      if (!response.ok) {
+        throw new Error(
+          `LocationIQ error: ${response.status} ${response.statusText}`
+        )
+      }
+
+      const data = await response.json()
+
+      return (Array.isArray(data) ? data : [])
+        .slice(0, limit)
+        .map(toGeocodingResponse)
+    },
+
+    async reverse(lat, lng, { language, signal } = {}) {
+      const url = `https://us1.locationiq.com/v1/reverse.php?key=${apiKey}&lat=${lat}&lon=${lng}&format=json&zoom=10&statecode=1${languageParam(language)}`
+
+      const response = await fetcher(url, { signal })
+
+      // LocationIQ answers 404 when there is nothing at the point
+      if (response.status === 404) return null
+      if (!response.ok) {
+        throw new Error(
+          `LocationIQ error: ${response.status} ${response.statusText}`
+        )
+      }
+
+      const data = await response.json()
+      return getAddressPlaceName(data?.address)
+    },
+
+    async reverseAddress(lat, lng, { language, signal } = {}) {
+      const url = `https://us1.locationiq.com/v1/reverse.php?key=${apiKey}&lat=${lat}&lon=${lng}&format=json&zoom=18${languageParam(language)}`
+
+      const response = await fetcher(url, { signal })
+
+      // LocationIQ answers 404 when there is nothing at the point
+      if (response.status === 404) return null
+      if (!response.ok) {
+        throw new Error(
+          `LocationIQ error: ${response.status} ${response.statusText}`
+        )
+      }
+
+      const data = await response.json()
+      return data?.display_name || null
+    },
+
+    async autocomplete(query, { limit = 5, language, signal } = {}) {
+      const url = `https://api.locationiq.com/v1/autocomplete?key=${apiKey}&q=${encodeURIComponent(
+        query
+      )}&limit=${limit}&dedupe=1${languageParam(language)}`
+
+      const response = await fetcher(url, { signal })
+
+      // LocationIQ answers 404 when nothing matches
+      if (response.status === 404) return []
+      if (!response.ok) {
+        throw new Error(
+          `LocationIQ error: ${response.status} ${response.statusText}`
+        )
+      }
+
+      const data = await response.json()
+
+      return (Array.isArray(data) ? data : [])
+        .slice(0, limit)
+        .map(toGeocodingResponse)
+    }
+  }
+}
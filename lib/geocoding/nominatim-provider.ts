@@ -0,0 +1,114 @@
+/*
+<ai_context>
+Contains the Nominatim (OpenStreetMap) geocoding provider.
+</ai_context>
+*/
+
+import {
+  Fetcher,
+  GeocodingProvider,
+  GeocodingResponse,
+  PlaceName
+} from "@/types"
+import { fetchJson } from "@/lib/fetch-utils"
+
+export const DEFAULT_NOMINATIM_BASE_URL = "https://nominatim.openstreetmap.org"
+
+// Address parts naming a settlement, most specific first
+const LOCALITY_FIELDS = [
+  "city",
+  "town",
+  "village",
+  "hamlet",
+  "suburb",
+  "municipality",
+  "county"
+]
+
+// Reads the place from a Nominatim-style address, which LocationIQ also
+// returns. The region comes from the ISO 3166-2 code (US-NJ becomes NJ) or a
+// state code when there is one, and the state's name otherwise.
+export function getAddressPlaceName(address: any): PlaceName | null {
+  const field = LOCALITY_FIELDS.find(name => address?.[name])
+  if (!field) return null
+
+  const isoRegion = address["ISO3166-2-lvl4"]?.split("-")[1]
+
+  return {
+    locality: address[field],
+    region: isoRegion || address.state_code?.toUpperCase() || address.state,
+    country: address.country
+  }
+}
+
+// Reads a Nominatim-style search result, which LocationIQ also returns. The
+// bounding box comes as [south, north, west, east] strings.
+export function toGeocodingResponse(place: any): GeocodingResponse {
+  const [south, north, west, east] = (place.boundingbox || []).map(Number)
+  const importance = parseFloat(place.importance)
+
+  return {
+    lat: place.lat,
+    lon: place.lon,
+    display_name: place.display_name,
+    type: place.type,
+    importance: isNaN(importance) ? undefined : importance,
+    boundingBox: [south, north, west, east].every(isFinite)
+      ? { south, north, west, east }
+      : undefined
+  }
+}
+
+// Asks for names in the given language, which LocationIQ also understands
+export const languageParam = (language?: string) =>
+  language ? `&accept-language=${encodeURIComponent(language)}` : ""
+
+interface NominatimProviderOptions {
+  baseUrl?: string
+  fetcher: Fetcher
+}
+
+export function createNominatimProvider({
+  baseUrl = DEFAULT_NOMINATIM_BASE_URL,
+  fetcher
+}: NominatimProviderOptions): GeocodingProvider {
+  return {
+    name: "nominatim",
+
+    async search(query, { limit = 1, language, signal } = {}) {
+      const data = await fetchJson(
+        fetcher,
+        `${baseUrl}/search?q=${encodeURIComponent(query)}&format=json&limit=${limit}${languageParam(language)}`,
+        "Nominatim",
+        { signal }
+      )
+
+      return (Array.isArray(data) ? data : []).map(toGeocodingResponse)
+    },
+
+    async reverse(lat, lng, { language, signal } = {}) {
+      // Zoom 10 resolves to a city or town rather than a building
+      const data = await fetchJson(
+        fetcher,
+        `${baseUrl}/reverse?lat=${lat}&lon=${lng}&format=json&zoom=10&addressdetails=1${languageParam(language)}`,
+        "Nominatim reverse",
+        { signal }
+      )
+
+      // Nominatim answers with an error object when nothing is there
+      return data?.error ? null : getAddressPlaceName(data?.address)
+    },
+
+    async reverseAddress(lat, lng, { language, signal } = {}) {
+      // Zoom 18 resolves to a building
+      const data = await fetchJson(
+        fetcher,
+        `${baseUrl}/reverse?lat=${lat}&lon=${lng}&format=json&zoom=18${languageParam(language)}`,
+        "Nominatim reverse",
+        { signal }
+      )
+
+      return data?.error ? null : data?.display_name || null
+    }
+  }
+}
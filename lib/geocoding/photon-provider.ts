@@ -0,0 +1,131 @@
+/*
+<ai_context>
+Contains the Photon (komoot) geocoding provider.
+</ai_context>
+*/
+
+import { Fetcher, GeocodingProvider, LookupOptions } from "@/types"
+import { fetchJson } from "@/lib/fetch-utils"
+
+export const DEFAULT_PHOTON_BASE_URL = "https://photon.komoot.io"
+
+interface PhotonProviderOptions {
+  baseUrl?: string
+  fetcher: Fetcher
+}
+
+// Photon returns address parts rather than a display name, so build one
+// in the same order Nominatim uses
+function formatDisplayName(properties: any): string {
+  const street = [properties.housenumber, properties.street]
+    .filter(Boolean)
+    .join(" ")
+
+  return [
+    properties.name,
+    street,
+    properties.city,
+    properties.state,
+    properties.postcode,
+    properties.country
+  ]
+    .filter((part, i, parts) => part && parts.indexOf(part) === i)
+    .join(", ")
+}
+
+// Languages Photon can name places in; others get the local names
+const PHOTON_LANGUAGES = ["de", "en", "fr"]
+
+const languageParam = (language?: string) => {
+  const code = language?.split("-")[0].toLowerCase()
+  return code && PHOTON_LANGUAGES.includes(code) ? `&lang=${code}` : ""
+}
+
+// Photon results that are themselves a settlement
+const PLACE_TYPES = ["city", "town", "village", "hamlet", "suburb"]
+
+export function createPhotonProvider({
+  baseUrl = DEFAULT_PHOTON_BASE_URL,
+  fetcher
+}: PhotonProviderOptions): GeocodingProvider {
+  const search = async (
+    query: string,
+    limit: number,
+    { language, signal }: LookupOptions
+  ) => {
+    const data = await fetchJson(
+      fetcher,
+      `${baseUrl}/api/?q=${encodeURIComponent(query)}&limit=${limit}${languageParam(language)}`,
+      "Photon",
+      { signal }
+    )
+
+    return (data?.features || []).map((feature: any) => {
+      const properties = feature.properties || {}
+      // Photon's extent is [west, north, east, south]
+      const [west, north, east, south] = properties.extent || []
+
+      return {
+        lat: feature.geometry.coordinates[1].toString(),
+        lon: feature.geometry.coordinates[0].toString(),
+        display_name: formatDisplayName(properties),
+        type: properties.osm_value,
+        boundingBox: properties.extent
+          ? { south, north, west, east }
+          : undefined
+      }
+    })
+  }
+
+  const reverseSearch = (
+    lat: number,
+    lng: number,
+    { language, signal }: LookupOptions
+  ) =>
+    fetchJson(
+      fetcher,
+      `${baseUrl}/reverse?lat=${lat}&lon=${lng}&limit=1${languageParam(language)}`,
+      "Photon reverse",
+      { signal }
+    )
+
+  return {
+    name: "photon",
+
+    async search(query, { limit = 1, ...options } = {}) {
+      return search(query, limit, options)
+    },
+
+    async reverse(lat, lng, options = {}) {
+      const data = await reverseSearch(lat, lng, options)
+
+      const properties = data?.features?.[0]?.properties
+      const locality =
+        properties?.city ||
+        (PLACE_TYPES.includes(properties?.osm_value)
+          ? properties.name
+          : null) ||
+        properties?.county
+      if (!locality) return null
+
+      return {
+        locality,
+        region: properties.state,
+        country: properties.country
+      }
+    },
+
+    async reverseAddress(lat, lng, options = {}) {
+      const data = await reverseSearch(lat, lng, options)
+      const properties = data?.features?.[0]?.properties
+
+      return properties ? formatDisplayName(properties) : null
+    },
+
+    // Photon's search is built for search-as-you-type, matching the last
+    // word as a prefix
+    async autocomplete(query, { limit = 5, ...options } = {}) {
+      return search(query, limit, options)
+    }
+  }
+}
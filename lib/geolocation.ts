@@ -0,0 +1,52 @@
+/*
+<ai_context>
+Contains helpers for reading the user's position from the browser.
+</ai_context>
+*/
+
+import { Translator } from "@/lib/i18n"
+
+// Ask for GPS where the device has it, and accept a fix up to a minute old
+export const GEOLOCATION_OPTIONS: PositionOptions = {
+  enableHighAccuracy: true,
+  timeout: 15000,
+  maximumAge: 60000
+}
+
+// Fixes less accurate than this (meters) are only good enough to name the
+// town, so the address shown is the town rather than a street that may be
+// wrong. Wi-Fi fixes are usually well within it.
+export const LOW_ACCURACY_METERS = 500
+
+// Fixes less accurate than this (meters), such as IP-based ones, are too
+// rough to meet halfway from and are not used
+export const MAX_ACCURACY_METERS = 10000
+
+export function isGeolocationSupported(): boolean {
+  return typeof navigator !== "undefined" && "geolocation" in navigator
+}
+
+export function getCurrentPosition(
+  options: PositionOptions = GEOLOCATION_OPTIONS
+): Promise<GeolocationPosition> {
+  return new Promise((resolve, reject) =>
+    navigator.geolocation.getCurrentPosition(resolve, reject, options)
+  )
+}
+
+// Explains why the browser could not give a position
+export function getGeolocationErrorMessage(
+  error: GeolocationPositionError,
+  t: Translator
+): string {
+  switch (error.code) {
+    case error.PERMISSION_DENIED:
+      return t("geolocation.denied")
+    case error.POSITION_UNAVAILABLE:
+      return t("geolocation.unavailable")
+    case error.TIMEOUT:
+      return t("geolocation.timeout")
+    default:
+      return t("geolocation.failed")
+  }
+}
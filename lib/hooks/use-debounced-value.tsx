@@ -0,0 +1,20 @@
+/*
+<ai_context>
+Hook that follows a value once it has stopped changing for a while.
+</ai_context>
+*/
+
+"use client"
+
+import { useEffect, useState } from "react"
+
+export function useDebouncedValue<T>(value: T, delay: number): T {
+  const [debouncedValue, setDebouncedValue] = useState(value)
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedValue(value), delay)
+    return () => clearTimeout(timer)
+  }, [value, delay])
+
+  return debouncedValue
+}
@@ -0,0 +1,88 @@
+/*
+<ai_context>
+Contains the UI's languages, how the language is picked from a request, and
+the translator that fills in messages from the catalogs.
+</ai_context>
+*/
+
+import { Locale, MessageValues } from "@/types"
+import { MessageKey, Messages, en } from "./messages/en"
+import { es } from "./messages/es"
+import { fr } from "./messages/fr"
+
+export type { MessageKey } from "./messages/en"
+
+export const LOCALES: Locale[] = ["en", "es", "fr"]
+
+export const DEFAULT_LOCALE: Locale = "en"
+
+// Each language's name in that language, for the language switcher
+export const LOCALE_LABELS: Record<Locale, string> = {
+  en: "English",
+  es: "Español",
+  fr: "Français"
+}
+
+// Where a language picked in the switcher is kept, so the server renders
+// pages in it
+export const LOCALE_COOKIE = "locale"
+
+const MESSAGES: Record<Locale, Messages> = { en, es, fr }
+
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.includes(value as Locale)
+}
+
+// The language tags in an Accept-Language header, most preferred first,
+// e.g. "fr-CA,fr;q=0.9,en;q=0.8" gives ["fr-CA", "fr", "en"]
+export function parseAcceptLanguage(header: string | null): string[] {
+  if (!header) return []
+
+  return header
+    .split(",")
+    .map((part, index) => {
+      const [tag, ...params] = part.trim().split(";")
+      const quality = params
+        .map(param => param.trim().match(/^q=([\d.]+)$/)?.[1])
+        .find(Boolean)
+      return { tag, quality: quality ? parseFloat(quality) : 1, index }
+    })
+    .filter(({ tag, quality }) => tag && tag !== "*" && quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index)
+    .map(({ tag }) => tag)
+}
+
+// The first supported language among tags in order of preference, matched
+// on the language alone ("fr-CA" gives "fr")
+export function matchLocale(tags: string[]): Locale {
+  for (const tag of tags) {
+    const language = tag.split("-")[0].toLowerCase()
+    if (isLocale(language)) return language
+  }
+
+  return DEFAULT_LOCALE
+}
+
+// Fills in a message in the translator's language, e.g.
+// t("form.location", { label: "B" }) gives "Location B"
+export type Translator = (key: MessageKey, values?: MessageValues) => string
+
+export function createTranslator(locale: Locale): Translator {
+  const messages = MESSAGES[locale]
+  const numbers = new Intl.NumberFormat(locale)
+  const plurals = new Intl.PluralRules(locale)
+
+  return (key, values = {}) => {
+    const message = messages[key]
+    const template =
+      typeof message === "string"
+        ? message
+        : (message[plurals.select(Number(values.count))] ?? message.other)
+
+    return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+      const value = values[name]
+      if (value === undefined) return placeholder
+      return typeof value === "number" ? numbers.format(value) : value
+    })
+  }
+}
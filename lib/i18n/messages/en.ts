@@ -0,0 +1,213 @@
+/*
+<ai_context>
+Contains the English messages, which every other catalog translates.
+</ai_context>
+*/
+
+import { Message } from "@/types"
+
+export const en = {
+  "common.notAvailable": "N/A",
+  "common.loading": "Loading...",
+  "common.cancel": "Cancel",
+  "common.delete": "Delete",
+  "common.deleting": "Deleting...",
+  "common.retry": "Retry",
+  "common.near": "Near {place}",
+
+  "locale.label": "Language",
+  "units.label": "Distance units",
+
+  "travelMode.driving": "Driving",
+  "travelMode.cycling": "Cycling",
+  "travelMode.walking": "Walking",
+  "travelMode.mixed": "Mixed Modes",
+
+  "objective.equalTime": "Equal Travel Time",
+  "objective.totalTime": "Least Total Time",
+  "objective.longestTrip": "Shortest Longest Trip",
+  "objectiveDescription.equalTime": "Everyone travels for about the same time",
+  "objectiveDescription.totalTime":
+    "The least travel time for everyone combined",
+  "objectiveDescription.longestTrip": "Nobody travels longer than they have to",
+
+  "avoidance.tolls": "Tolls",
+  "avoidance.highways": "Highways",
+  "avoidance.ferries": "Ferries",
+
+  "distance.meters": "{value} m",
+  "distance.kilometers": "{value} km",
+  "distance.feet": "{value} ft",
+  "distance.miles": "{value} mi",
+  "distance.straightLine": "{distance} (straight line)",
+
+  "duration.minutes": "{minutes} min",
+  "duration.short": "{minutes}m",
+  "duration.hoursMinutes": "{hours}h {minutes}m",
+
+  "route.main": "Main Route",
+  "route.alternate": "Alternate Route",
+  "route.alternateNumbered": "Alternate Route {number}",
+
+  "geolocation.unsupported":
+    "Your browser cannot share your location. Please enter an address.",
+  "geolocation.denied":
+    "Location access was denied. Allow it in your browser settings or enter an address.",
+  "geolocation.unavailable":
+    "Your location is unavailable right now. Please enter an address.",
+  "geolocation.timeout":
+    "Finding your location took too long. Please try again or enter an address.",
+  "geolocation.failed": "Could not get your location. Please enter an address.",
+  "geolocation.tooRough":
+    "Your location is only accurate to about {accuracy}. Please enter an address.",
+  "geolocation.rough":
+    "Your location is only accurate to about {accuracy}. Enter an address for a more precise midpoint.",
+
+  "geocodingProvider.locationiq": "LocationIQ",
+  "geocodingProvider.nominatim": "OpenStreetMap Nominatim",
+  "geocodingProvider.photon": "Photon",
+  "geocodingProvider.local": "offline place list",
+
+  "dataQuality.estimated": "Estimated",
+  "dataQuality.estimatedHint":
+    "The routing service was unavailable, so travel times and distances are straight-line estimates",
+
+  "app.title": "Meet Me Halfway",
+  "app.viewSavedSearches": "View All Saved Searches",
+  "app.backToInput": "← Back to Input",
+
+  "form.title": "Find a Midpoint",
+  "form.travelMode": "Travel Mode",
+  "form.travelModeHint":
+    "Applies to everyone. Change a person's mode below if they travel differently.",
+  "form.meetingPoint": "Meeting Point",
+  "form.avoid": "Avoid",
+  "form.location": "Location {label}",
+  "form.travelModeFor": "Travel mode for location {label}",
+  "form.savedLocationPlaceholder": "Select a saved location or enter custom",
+  "form.customLocation": "Enter custom location",
+  "form.useMyLocation": "Use my location",
+  "form.save": "Save",
+  "form.shareOfTravel": "Share of travel: {percent}%",
+  "form.shareOfTravelFor": "Share of travel for location {label}",
+  "form.locationNamePlaceholder": "Location name (e.g. Home, Work)",
+  "form.addLocation": "Add Another Location",
+  "form.submitting": "Finding Midpoint...",
+  "form.submit": "Find Midpoint",
+  "form.missingAddress": "Please enter an address for every location",
+  "form.locationError": "Location {label}: {message}",
+  "form.requestFailed": "An error occurred while processing your request",
+
+  "autocomplete.placeholder": "Enter an address",
+  "autocomplete.savedLocations": "Saved Locations",
+  "autocomplete.suggestions": "Suggestions",
+  "autocomplete.searching": "Searching...",
+
+  "picker.title": "Which {query}?",
+  "picker.description":
+    "{label} matches more than one place. Pick the one you meant.",
+
+  "recentSearches.title": "Recent Searches",
+  "recentSearches.empty": "No recent searches yet.",
+  "recentSearches.metNear": "Met near {place}",
+
+  "savedLocations.title": "Saved Locations",
+  "savedLocations.empty": "No saved locations yet.",
+  "savedLocations.deleted": "Location deleted successfully",
+  "savedLocations.deleteError": "Error deleting location: {message}",
+
+  "savedSearches.title": "Saved Searches",
+  "savedSearches.cardTitle": "Your Saved Searches",
+  "savedSearches.description": "View and reuse your previous searches",
+  "savedSearches.signIn": "Please sign in to view your saved searches.",
+  "savedSearches.loadFailed": "Error loading saved searches: {message}",
+  "savedSearches.empty": "You don't have any saved searches yet.",
+  "savedSearches.emptyHint":
+    "When you search for meeting points, they will be saved here for future reference.",
+  "savedSearches.startLocation": "Start Location",
+  "savedSearches.endLocation": "End Location",
+  "savedSearches.startToEnd": "Start to End",
+  "savedSearches.meetingPoint": "Meeting Point",
+  "savedSearches.use": "Use This Search",
+  "savedSearches.deleteTitle": "Are you sure?",
+  "savedSearches.deleteDescription":
+    "This will permanently delete this saved search.",
+  "savedSearches.deleted": "Search deleted successfully",
+  "savedSearches.deleteError": "Error deleting search: {message}",
+  "savedSearches.deleteFailed": "An error occurred while deleting the search",
+
+  "results.title": "Meet Me Halfway Results",
+  "results.searchError": "Error Finding Search",
+  "results.midpointError": "Error Finding Midpoint",
+  "results.poiError": "Error Finding Points of Interest",
+  "results.noPois": "No Points of Interest Found",
+  "results.loadingMap": "Loading map...",
+  "results.routeMap": "Route Map",
+  "results.meetingNear": "Meeting near {place}",
+  "results.hidePois": "Hide POIs",
+  "results.showPois": "Show POIs",
+  "results.alongRoute": "Along Route",
+  "results.showAlternateRoutes": {
+    one: "Show Alternate Route",
+    other: "Show Alternate Routes"
+  },
+  "results.routeConstraints": "Route Constraints",
+  "results.avoiding": "Avoiding: {avoidances}",
+  "results.notAvoided": "Not avoided: {avoidances}",
+  "results.meetingAt": "Meeting at {place}",
+  "results.venueCluster": "a cluster of venues",
+  "results.fromMidpoint": "{distance} from the midpoint",
+  "results.venuesNearby": {
+    one: "{count} venue nearby",
+    other: "{count} venues nearby"
+  },
+  "results.extraTravel": "Extra travel: {times}",
+  "results.unknownTime": "unknown",
+  "results.fewVenues":
+    "Few places to meet near the midpoint, and none within reach",
+  "results.midpointComparison": "Midpoint Comparison",
+  "results.weightedTime": "Weighted travel time:",
+  "results.equalTime": "Equal travel time:",
+  "results.splitByDistance": "Split by distance:",
+  "results.halfwayByDistance": "Halfway by distance:",
+  "results.noAlternative": "No alternative route available",
+  "results.tripsToMidpoint": "Trips to Midpoint",
+
+  "map.title": "Meeting Point Map",
+  "map.locatedWith": "Located with {provider}",
+  "map.routeMidpoint": "Midpoint ({route})",
+  "map.groupMidpoint": "Group Midpoint",
+  "map.midpoint": "Midpoint",
+  "map.halfwayByDistance": "Halfway by Distance",
+  "map.halfwayByDistanceHint":
+    "The midpoint marker balances travel time instead",
+  "map.meetingPlace": "Meeting Place",
+  "map.meetingPlaceNamed": "Meeting Place: {name}",
+  "map.meetingPlaceNear": "Near {place}.",
+  "map.meetingPlaceHint":
+    "Moved from the midpoint to somewhere with places to meet",
+
+  "poi.title": "Points of Interest",
+  "poi.sortBy": "Sort by...",
+  "poi.sortName": "Name",
+  "poi.sortDistanceFrom": "Distance from {label}",
+  "poi.sortTotalTime": "Total Travel Time",
+  "poi.sortLongestTime": "Longest Trip",
+  "poi.sortTimeDifference": "Time Difference",
+  "poi.sortLeastDetour": "Least Detour",
+  "poi.filterAll": "All",
+  "poi.filterFood": "Food",
+  "poi.filterActivities": "Activities",
+  "poi.filterLodging": "Lodging",
+  "poi.filterOther": "Other",
+  "poi.empty": "No points of interest found for the selected filters.",
+  "poi.from": "From {label}: {value}",
+  "poi.timeDifference": "{minutes} min difference",
+  "poi.detour": "{minutes} min detour",
+  "poi.openIn": "Open in {app}"
+} satisfies Record<string, Message>
+
+export type MessageKey = keyof typeof en
+
+// A full translation of the English messages
+export type Messages = Record<MessageKey, Message>
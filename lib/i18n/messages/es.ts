@@ -0,0 +1,214 @@
+/*
+<ai_context>
+Contains the Spanish messages.
+</ai_context>
+*/
+
+import { Messages } from "./en"
+
+export const es: Messages = {
+  "common.notAvailable": "N/D",
+  "common.loading": "Cargando...",
+  "common.cancel": "Cancelar",
+  "common.delete": "Eliminar",
+  "common.deleting": "Eliminando...",
+  "common.retry": "Reintentar",
+  "common.near": "Cerca de {place}",
+
+  "locale.label": "Idioma",
+  "units.label": "Unidades de distancia",
+
+  "travelMode.driving": "En coche",
+  "travelMode.cycling": "En bicicleta",
+  "travelMode.walking": "A pie",
+  "travelMode.mixed": "Modos mixtos",
+
+  "objective.equalTime": "Mismo tiempo de viaje",
+  "objective.totalTime": "Menor tiempo total",
+  "objective.longestTrip": "Viaje más largo más corto",
+  "objectiveDescription.equalTime":
+    "Todos viajan aproximadamente el mismo tiempo",
+  "objectiveDescription.totalTime":
+    "El menor tiempo de viaje sumando el de todos",
+  "objectiveDescription.longestTrip": "Nadie viaja más de lo necesario",
+
+  "avoidance.tolls": "Peajes",
+  "avoidance.highways": "Autopistas",
+  "avoidance.ferries": "Ferris",
+
+  "distance.meters": "{value} m",
+  "distance.kilometers": "{value} km",
+  "distance.feet": "{value} ft",
+  "distance.miles": "{value} mi",
+  "distance.straightLine": "{distance} (en línea recta)",
+
+  "duration.minutes": "{minutes} min",
+  "duration.short": "{minutes} min",
+  "duration.hoursMinutes": "{hours} h {minutes} min",
+
+  "route.main": "Ruta principal",
+  "route.alternate": "Ruta alternativa",
+  "route.alternateNumbered": "Ruta alternativa {number}",
+
+  "geolocation.unsupported":
+    "Tu navegador no puede compartir tu ubicación. Introduce una dirección.",
+  "geolocation.denied":
+    "Se denegó el acceso a la ubicación. Permítelo en los ajustes del navegador o introduce una dirección.",
+  "geolocation.unavailable":
+    "Tu ubicación no está disponible ahora mismo. Introduce una dirección.",
+  "geolocation.timeout":
+    "Encontrar tu ubicación tardó demasiado. Inténtalo de nuevo o introduce una dirección.",
+  "geolocation.failed":
+    "No se pudo obtener tu ubicación. Introduce una dirección.",
+  "geolocation.tooRough":
+    "Tu ubicación solo tiene una precisión de unos {accuracy}. Introduce una dirección.",
+  "geolocation.rough":
+    "Tu ubicación solo tiene una precisión de unos {accuracy}. Introduce una dirección para un punto medio más preciso.",
+
+  "geocodingProvider.locationiq": "LocationIQ",
+  "geocodingProvider.nominatim": "OpenStreetMap Nominatim",
+  "geocodingProvider.photon": "Photon",
+  "geocodingProvider.local": "lista de lugares sin conexión",
+
+  "dataQuality.estimated": "Estimado",
+  "dataQuality.estimatedHint":
+    "El servicio de rutas no estaba disponible, así que los tiempos y las distancias son estimaciones en línea recta",
+
+  "app.title": "Nos vemos a medio camino",
+  "app.viewSavedSearches": "Ver todas las búsquedas guardadas",
+  "app.backToInput": "← Volver al formulario",
+
+  "form.title": "Encontrar un punto medio",
+  "form.travelMode": "Modo de transporte",
+  "form.travelModeHint":
+    "Se aplica a todos. Cambia abajo el modo de una persona si viaja de otra forma.",
+  "form.meetingPoint": "Punto de encuentro",
+  "form.avoid": "Evitar",
+  "form.location": "Ubicación {label}",
+  "form.travelModeFor": "Modo de transporte de la ubicación {label}",
+  "form.savedLocationPlaceholder":
+    "Elige una ubicación guardada o introduce otra",
+  "form.customLocation": "Introducir otra ubicación",
+  "form.useMyLocation": "Usar mi ubicación",
+  "form.save": "Guardar",
+  "form.shareOfTravel": "Parte del viaje: {percent} %",
+  "form.shareOfTravelFor": "Parte del viaje de la ubicación {label}",
+  "form.locationNamePlaceholder":
+    "Nombre de la ubicación (p. ej. Casa, Trabajo)",
+  "form.addLocation": "Añadir otra ubicación",
+  "form.submitting": "Buscando el punto medio...",
+  "form.submit": "Buscar punto medio",
+  "form.missingAddress": "Introduce una dirección para cada ubicación",
+  "form.locationError": "Ubicación {label}: {message}",
+  "form.requestFailed": "Se produjo un error al procesar tu solicitud",
+
+  "autocomplete.placeholder": "Introduce una dirección",
+  "autocomplete.savedLocations": "Ubicaciones guardadas",
+  "autocomplete.suggestions": "Sugerencias",
+  "autocomplete.searching": "Buscando...",
+
+  "picker.title": "¿Qué {query}?",
+  "picker.description":
+    "{label} coincide con más de un lugar. Elige el que querías decir.",
+
+  "recentSearches.title": "Búsquedas recientes",
+  "recentSearches.empty": "Aún no hay búsquedas recientes.",
+  "recentSearches.metNear": "Encuentro cerca de {place}",
+
+  "savedLocations.title": "Ubicaciones guardadas",
+  "savedLocations.empty": "Aún no hay ubicaciones guardadas.",
+  "savedLocations.deleted": "Ubicación eliminada correctamente",
+  "savedLocations.deleteError": "Error al eliminar la ubicación: {message}",
+
+  "savedSearches.title": "Búsquedas guardadas",
+  "savedSearches.cardTitle": "Tus búsquedas guardadas",
+  "savedSearches.description": "Consulta y reutiliza tus búsquedas anteriores",
+  "savedSearches.signIn": "Inicia sesión para ver tus búsquedas guardadas.",
+  "savedSearches.loadFailed":
+    "Error al cargar las búsquedas guardadas: {message}",
+  "savedSearches.empty": "Aún no tienes búsquedas guardadas.",
+  "savedSearches.emptyHint":
+    "Cuando busques puntos de encuentro, se guardarán aquí para consultarlos más adelante.",
+  "savedSearches.startLocation": "Ubicación de salida",
+  "savedSearches.endLocation": "Ubicación de llegada",
+  "savedSearches.startToEnd": "De la salida a la llegada",
+  "savedSearches.meetingPoint": "Punto de encuentro",
+  "savedSearches.use": "Usar esta búsqueda",
+  "savedSearches.deleteTitle": "¿Estás seguro?",
+  "savedSearches.deleteDescription":
+    "Esta búsqueda guardada se eliminará de forma permanente.",
+  "savedSearches.deleted": "Búsqueda eliminada correctamente",
+  "savedSearches.deleteError": "Error al eliminar la búsqueda: {message}",
+  "savedSearches.deleteFailed": "Se produjo un error al eliminar la búsqueda",
+
+  "results.title": "Resultados de Nos vemos a medio camino",
+  "results.searchError": "Error al encontrar la búsqueda",
+  "results.midpointError": "Error al encontrar el punto medio",
+  "results.poiError": "Error al encontrar puntos de interés",
+  "results.noPois": "No se encontraron puntos de interés",
+  "results.loadingMap": "Cargando el mapa...",
+  "results.routeMap": "Mapa de rutas",
+  "results.meetingNear": "Encuentro cerca de {place}",
+  "results.hidePois": "Ocultar lugares",
+  "results.showPois": "Mostrar lugares",
+  "results.alongRoute": "A lo largo de la ruta",
+  "results.showAlternateRoutes": {
+    one: "Mostrar ruta alternativa",
+    other: "Mostrar rutas alternativas"
+  },
+  "results.routeConstraints": "Restricciones de ruta",
+  "results.avoiding": "Evitando: {avoidances}",
+  "results.notAvoided": "No evitado: {avoidances}",
+  "results.meetingAt": "Encuentro en {place}",
+  "results.venueCluster": "un grupo de locales",
+  "results.fromMidpoint": "a {distance} del punto medio",
+  "results.venuesNearby": {
+    one: "{count} local cerca",
+    other: "{count} locales cerca"
+  },
+  "results.extraTravel": "Viaje adicional: {times}",
+  "results.unknownTime": "desconocido",
+  "results.fewVenues":
+    "Hay pocos sitios para quedar cerca del punto medio y ninguno a mano",
+  "results.midpointComparison": "Comparación de puntos medios",
+  "results.weightedTime": "Tiempo de viaje ponderado:",
+  "results.equalTime": "Mismo tiempo de viaje:",
+  "results.splitByDistance": "Reparto por distancia:",
+  "results.halfwayByDistance": "Mitad por distancia:",
+  "results.noAlternative": "No hay ninguna ruta alternativa",
+  "results.tripsToMidpoint": "Viajes al punto medio",
+
+  "map.title": "Mapa del punto de encuentro",
+  "map.locatedWith": "Localizado con {provider}",
+  "map.routeMidpoint": "Punto medio ({route})",
+  "map.groupMidpoint": "Punto medio del grupo",
+  "map.midpoint": "Punto medio",
+  "map.halfwayByDistance": "Mitad por distancia",
+  "map.halfwayByDistanceHint":
+    "El marcador del punto medio equilibra en cambio el tiempo de viaje",
+  "map.meetingPlace": "Lugar de encuentro",
+  "map.meetingPlaceNamed": "Lugar de encuentro: {name}",
+  "map.meetingPlaceNear": "Cerca de {place}.",
+  "map.meetingPlaceHint":
+    "Trasladado desde el punto medio a un sitio con lugares para quedar",
+
+  "poi.title": "Puntos de interés",
+  "poi.sortBy": "Ordenar por...",
+  "poi.sortName": "Nombre",
+  "poi.sortDistanceFrom": "Distancia desde {label}",
+  "poi.sortTotalTime": "Tiempo total de viaje",
+  "poi.sortLongestTime": "Viaje más largo",
+  "poi.sortTimeDifference": "Diferencia de tiempo",
+  "poi.sortLeastDetour": "Menor desvío",
+  "poi.filterAll": "Todo",
+  "poi.filterFood": "Comida",
+  "poi.filterActivities": "Actividades",
+  "poi.filterLodging": "Alojamiento",
+  "poi.filterOther": "Otros",
+  "poi.empty":
+    "No se encontraron puntos de interés con los filtros seleccionados.",
+  "poi.from": "Desde {label}: {value}",
+  "poi.timeDifference": "{minutes} min de diferencia",
+  "poi.detour": "{minutes} min de desvío",
+  "poi.openIn": "Abrir en {app}"
+}
@@ -0,0 +1,218 @@
+/*
+<ai_context>
+Contains the French messages.
+</ai_context>
+*/
+
+import { Messages } from "./en"
+
+export const fr: Messages = {
+  "common.notAvailable": "N/D",
+  "common.loading": "Chargement...",
+  "common.cancel": "Annuler",
+  "common.delete": "Supprimer",
+  "common.deleting": "Suppression...",
+  "common.retry": "Réessayer",
+  "common.near": "Près de {place}",
+
+  "locale.label": "Langue",
+  "units.label": "Unités de distance",
+
+  "travelMode.driving": "En voiture",
+  "travelMode.cycling": "À vélo",
+  "travelMode.walking": "À pied",
+  "travelMode.mixed": "Modes mixtes",
+
+  "objective.equalTime": "Temps de trajet égal",
+  "objective.totalTime": "Temps total minimal",
+  "objective.longestTrip": "Trajet le plus long minimal",
+  "objectiveDescription.equalTime": "Chacun voyage à peu près le même temps",
+  "objectiveDescription.totalTime":
+    "Le moins de temps de trajet pour tout le monde réuni",
+  "objectiveDescription.longestTrip":
+    "Personne ne voyage plus longtemps que nécessaire",
+
+  "avoidance.tolls": "Péages",
+  "avoidance.highways": "Autoroutes",
+  "avoidance.ferries": "Ferries",
+
+  "distance.meters": "{value} m",
+  "distance.kilometers": "{value} km",
+  "distance.feet": "{value} ft",
+  "distance.miles": "{value} mi",
+  "distance.straightLine": "{distance} (à vol d'oiseau)",
+
+  "duration.minutes": "{minutes} min",
+  "duration.short": "{minutes} min",
+  "duration.hoursMinutes": "{hours} h {minutes} min",
+
+  "route.main": "Itinéraire principal",
+  "route.alternate": "Itinéraire alternatif",
+  "route.alternateNumbered": "Itinéraire alternatif {number}",
+
+  "geolocation.unsupported":
+    "Votre navigateur ne peut pas partager votre position. Saisissez une adresse.",
+  "geolocation.denied":
+    "L'accès à la position a été refusé. Autorisez-le dans les réglages du navigateur ou saisissez une adresse.",
+  "geolocation.unavailable":
+    "Votre position est indisponible pour le moment. Saisissez une adresse.",
+  "geolocation.timeout":
+    "La recherche de votre position a pris trop de temps. Réessayez ou saisissez une adresse.",
+  "geolocation.failed":
+    "Impossible d'obtenir votre position. Saisissez une adresse.",
+  "geolocation.tooRough":
+    "Votre position n'est précise qu'à environ {accuracy}. Saisissez une adresse.",
+  "geolocation.rough":
+    "Votre position n'est précise qu'à environ {accuracy}. Saisissez une adresse pour un point de rencontre plus précis.",
+
+  "geocodingProvider.locationiq": "LocationIQ",
+  "geocodingProvider.nominatim": "OpenStreetMap Nominatim",
+  "geocodingProvider.photon": "Photon",
+  "geocodingProvider.local": "liste de lieux hors ligne",
+
+  "dataQuality.estimated": "Estimé",
+  "dataQuality.estimatedHint":
+    "Le service d'itinéraires était indisponible, les temps de trajet et les distances sont donc estimés à vol d'oiseau",
+
+  "app.title": "À mi-chemin",
+  "app.viewSavedSearches": "Voir toutes les recherches enregistrées",
+  "app.backToInput": "← Retour au formulaire",
+
+  "form.title": "Trouver un point de rencontre",
+  "form.travelMode": "Mode de transport",
+  "form.travelModeHint":
+    "S'applique à tout le monde. Changez le mode d'une personne ci-dessous si elle voyage autrement.",
+  "form.meetingPoint": "Point de rencontre",
+  "form.avoid": "Éviter",
+  "form.location": "Lieu {label}",
+  "form.travelModeFor": "Mode de transport du lieu {label}",
+  "form.savedLocationPlaceholder":
+    "Choisissez un lieu enregistré ou saisissez-en un autre",
+  "form.customLocation": "Saisir un autre lieu",
+  "form.useMyLocation": "Utiliser ma position",
+  "form.save": "Enregistrer",
+  "form.shareOfTravel": "Part du trajet : {percent} %",
+  "form.shareOfTravelFor": "Part du trajet du lieu {label}",
+  "form.locationNamePlaceholder": "Nom du lieu (p. ex. Maison, Travail)",
+  "form.addLocation": "Ajouter un autre lieu",
+  "form.submitting": "Recherche du point de rencontre...",
+  "form.submit": "Trouver le point de rencontre",
+  "form.missingAddress": "Saisissez une adresse pour chaque lieu",
+  "form.locationError": "Lieu {label} : {message}",
+  "form.requestFailed":
+    "Une erreur s'est produite lors du traitement de votre demande",
+
+  "autocomplete.placeholder": "Saisissez une adresse",
+  "autocomplete.savedLocations": "Lieux enregistrés",
+  "autocomplete.suggestions": "Suggestions",
+  "autocomplete.searching": "Recherche...",
+
+  "picker.title": "Quel {query} ?",
+  "picker.description":
+    "{label} correspond à plusieurs endroits. Choisissez celui que vous vouliez dire.",
+
+  "recentSearches.title": "Recherches récentes",
+  "recentSearches.empty": "Aucune recherche récente pour l'instant.",
+  "recentSearches.metNear": "Rencontre près de {place}",
+
+  "savedLocations.title": "Lieux enregistrés",
+  "savedLocations.empty": "Aucun lieu enregistré pour l'instant.",
+  "savedLocations.deleted": "Lieu supprimé",
+  "savedLocations.deleteError":
+    "Erreur lors de la suppression du lieu : {message}",
+
+  "savedSearches.title": "Recherches enregistrées",
+  "savedSearches.cardTitle": "Vos recherches enregistrées",
+  "savedSearches.description":
+    "Consultez et réutilisez vos recherches précédentes",
+  "savedSearches.signIn":
+    "Connectez-vous pour voir vos recherches enregistrées.",
+  "savedSearches.loadFailed":
+    "Erreur lors du chargement des recherches enregistrées : {message}",
+  "savedSearches.empty": "Vous n'avez encore aucune recherche enregistrée.",
+  "savedSearches.emptyHint":
+    "Quand vous chercherez des points de rencontre, ils seront enregistrés ici pour plus tard.",
+  "savedSearches.startLocation": "Lieu de départ",
+  "savedSearches.endLocation": "Lieu d'arrivée",
+  "savedSearches.startToEnd": "Du départ à l'arrivée",
+  "savedSearches.meetingPoint": "Point de rencontre",
+  "savedSearches.use": "Utiliser cette recherche",
+  "savedSearches.deleteTitle": "Êtes-vous sûr ?",
+  "savedSearches.deleteDescription":
+    "Cette recherche enregistrée sera définitivement supprimée.",
+  "savedSearches.deleted": "Recherche supprimée",
+  "savedSearches.deleteError":
+    "Erreur lors de la suppression de la recherche : {message}",
+  "savedSearches.deleteFailed":
+    "Une erreur s'est produite lors de la suppression de la recherche",
+
+  "results.title": "Résultats À mi-chemin",
+  "results.searchError": "Erreur lors de la recherche",
+  "results.midpointError": "Erreur lors du calcul du point de rencontre",
+  "results.poiError": "Erreur lors de la recherche de lieux d'intérêt",
+  "results.noPois": "Aucun lieu d'intérêt trouvé",
+  "results.loadingMap": "Chargement de la carte...",
+  "results.routeMap": "Carte des itinéraires",
+  "results.meetingNear": "Rencontre près de {place}",
+  "results.hidePois": "Masquer les lieux",
+  "results.showPois": "Afficher les lieux",
+  "results.alongRoute": "Le long de l'itinéraire",
+  "results.showAlternateRoutes": {
+    one: "Afficher l'itinéraire alternatif",
+    other: "Afficher les itinéraires alternatifs"
+  },
+  "results.routeConstraints": "Contraintes d'itinéraire",
+  "results.avoiding": "Évités : {avoidances}",
+  "results.notAvoided": "Non évités : {avoidances}",
+  "results.meetingAt": "Rencontre à {place}",
+  "results.venueCluster": "un groupe d'établissements",
+  "results.fromMidpoint": "à {distance} du point médian",
+  "results.venuesNearby": {
+    one: "{count} établissement à proximité",
+    other: "{count} établissements à proximité"
+  },
+  "results.extraTravel": "Trajet supplémentaire : {times}",
+  "results.unknownTime": "inconnu",
+  "results.fewVenues":
+    "Peu d'endroits où se retrouver près du point médian, et aucun à portée",
+  "results.midpointComparison": "Comparaison des points médians",
+  "results.weightedTime": "Temps de trajet pondéré :",
+  "results.equalTime": "Temps de trajet égal :",
+  "results.splitByDistance": "Partage par distance :",
+  "results.halfwayByDistance": "Mi-chemin par distance :",
+  "results.noAlternative": "Aucun itinéraire alternatif disponible",
+  "results.tripsToMidpoint": "Trajets jusqu'au point médian",
+
+  "map.title": "Carte du point de rencontre",
+  "map.locatedWith": "Localisé avec {provider}",
+  "map.routeMidpoint": "Point médian ({route})",
+  "map.groupMidpoint": "Point médian du groupe",
+  "map.midpoint": "Point médian",
+  "map.halfwayByDistance": "Mi-chemin par distance",
+  "map.halfwayByDistanceHint":
+    "Le marqueur du point médian équilibre plutôt les temps de trajet",
+  "map.meetingPlace": "Lieu de rencontre",
+  "map.meetingPlaceNamed": "Lieu de rencontre : {name}",
+  "map.meetingPlaceNear": "Près de {place}.",
+  "map.meetingPlaceHint":
+    "Déplacé du point médian vers un endroit où se retrouver",
+
+  "poi.title": "Lieux d'intérêt",
+  "poi.sortBy": "Trier par...",
+  "poi.sortName": "Nom",
+  "poi.sortDistanceFrom": "Distance depuis {label}",
+  "poi.sortTotalTime": "Temps de trajet total",
+  "poi.sortLongestTime": "Trajet le plus long",
+  "poi.sortTimeDifference": "Écart de temps",
+  "poi.sortLeastDetour": "Détour minimal",
+  "poi.filterAll": "Tout",
+  "poi.filterFood": "Restauration",
+  "poi.filterActivities": "Activités",
+  "poi.filterLodging": "Hébergement",
+  "poi.filterOther": "Autres",
+  "poi.empty": "Aucun lieu d'intérêt ne correspond aux filtres choisis.",
+  "poi.from": "Depuis {label} : {value}",
+  "poi.timeDifference": "{minutes} min d'écart",
+  "poi.detour": "{minutes} min de détour",
+  "poi.openIn": "Ouvrir dans {app}"
+}
@@ -0,0 +1,32 @@
+/*
+<ai_context>
+Contains helpers for reading the user's language on the server, in pages and
+server actions.
+</ai_context>
+*/
+
+import { Locale } from "@/types"
+import { cookies, headers } from "next/headers"
+import {
+  LOCALE_COOKIE,
+  Translator,
+  createTranslator,
+  isLocale,
+  matchLocale,
+  parseAcceptLanguage
+} from "@/lib/i18n"
+
+// The language picked in the switcher, or else the browser's preferred
+// language when the app has it
+export async function getRequestLocale(): Promise<Locale> {
+  const picked = (await cookies()).get(LOCALE_COOKIE)?.value
+  if (isLocale(picked)) return picked
+
+  return matchLocale(
+    parseAcceptLanguage((await headers()).get("accept-language"))
+  )
+}
+
+export async function getTranslator(): Promise<Translator> {
+  return createTranslator(await getRequestLocale())
+}
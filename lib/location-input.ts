@@ -0,0 +1,193 @@
+/*
+<ai_context>
+Contains a parser for location input that is already a position: raw
+coordinates, geo: URIs and map-app share links.
+</ai_context>
+*/
+
+import { LatLng } from "@/lib/geo"
+
+// One coordinate in decimal degrees or degrees, minutes and seconds, with the
+// hemisphere given by a sign or by a letter before or after it. Groups:
+// leading letter, degrees, minutes, seconds, trailing letter.
+const COORDINATE =
+  "([NSEW])?\\s*([-+]?\\d+(?:\\.\\d+)?)\\s*(?:°|º|deg)?\\s*" +
+  "(?:(\\d+(?:\\.\\d+)?)\\s*['′’]\\s*)?" +
+  "(?:(\\d+(?:\\.\\d+)?)\\s*(?:\"|″|”|''|′′)\\s*)?" +
+  "([NSEW])?"
+
+const COORDINATE_PAIR = new RegExp(
+  `^\\s*${COORDINATE}\\s*[,;/]?\\s*${COORDINATE}\\s*$`,
+  "i"
+)
+
+// Two whole numbers read as an address ("5 W 42") unless they are written
+// as coordinates: with a decimal point, a degree, minute or second mark, or
+// a comma or semicolon between them
+const COORDINATE_MARKS = /[.,;°º'′’"″”]|deg/i
+
+// Query parameters that map apps put a position in, most specific first:
+// Google (q, query, destination, center), Apple (ll, coordinate, q, sll)
+const POSITION_PARAMS = [
+  "ll",
+  "coordinate",
+  "query",
+  "q",
+  "destination",
+  "center",
+  "sll"
+]
+
+const isValid = ({ lat, lng }: LatLng) =>
+  isFinite(lat) && isFinite(lng) && Math.abs(lat) <= 90 && Math.abs(lng) <= 180
+
+// Reads one matched coordinate as signed decimal degrees, with its
+// hemisphere letter if it had one
+function readCoordinate(
+  groups: (string | undefined)[]
+): { value: number; hemisphere?: string } | null {
+  const [leading, degrees, minutes, seconds, trailing] = groups
+  if (leading && trailing) return null
+
+  const minuteValue = minutes ? parseFloat(minutes) : 0
+  const secondValue = seconds ? parseFloat(seconds) : 0
+  if (minuteValue >= 60 || secondValue >= 60) return null
+
+  const hemisphere = (leading || trailing)?.toUpperCase()
+  const isSigned = degrees!.startsWith("-")
+
+  // A sign and a hemisphere letter would contradict each other
+  if (isSigned && hemisphere) return null
+
+  const magnitude =
+    Math.abs(parseFloat(degrees!)) + minuteValue / 60 + secondValue / 3600
+  const isNegative = isSigned || hemisphere === "S" || hemisphere === "W"
+
+  return { value: isNegative ? -magnitude : magnitude, hemisphere }
+}
+
+// Reads a latitude and longitude pair such as "40.7128, -74.0060",
+// "40.7128 N 74.0060 W" or 40°42'46"N 74°0'22"W. Letters may put the
+// longitude first; without them the latitude comes first.
+export function parseCoordinates(text: string): LatLng | null {
+  const match = text.match(COORDINATE_PAIR)
+  if (!match || !COORDINATE_MARKS.test(text)) return null
+
+  // In "N 40.7 W 74.0" the W is matched as trailing the first coordinate,
+  // but leads the second
+  const groups: (string | undefined)[] = match.slice(1, 11)
+  if (groups[0] && groups[4] && !groups[5] && !groups[9]) {
+    groups[5] = groups[4]
+    groups[4] = undefined
+  }
+
+  const first = readCoordinate(groups.slice(0, 5))
+  const second = readCoordinate(groups.slice(5, 10))
+  if (!first || !second) return null
+
+  const isLongitude = (hemisphere?: string) =>
+    hemisphere === "E" || hemisphere === "W"
+  const isLatitude = (hemisphere?: string) =>
+    hemisphere === "N" || hemisphere === "S"
+
+  if (isLatitude(first.hemisphere) && isLatitude(second.hemisphere)) return null
+  if (isLongitude(first.hemisphere) && isLongitude(second.hemisphere)) {
+    return null
+  }
+
+  const point =
+    isLongitude(first.hemisphere) || isLatitude(second.hemisphere)
+      ? { lat: second.value, lng: first.value }
+      : { lat: first.value, lng: second.value }
+
+  return isValid(point) ? point : null
+}
+
+// geo:40.7128,-74.0060 with optional altitude and parameters, or the
+// Android form geo:0,0?q=40.7128,-74.0060(Label)
+function parseGeoUri(text: string): LatLng | null {
+  const match = text.match(
+    /^geo:([-+]?\d+(?:\.\d+)?),([-+]?\d+(?:\.\d+)?)(?:,[-+]?\d+(?:\.\d+)?)?(?:;[^?]*)?(?:\?(.*))?$/i
+  )
+  if (!match) return null
+
+  const point = { lat: parseFloat(match[1]), lng: parseFloat(match[2]) }
+  const query = new URLSearchParams(match[3] || "").get("q")
+  const queried = query ? parseCoordinates(query.replace(/\(.*\)$/, "")) : null
+
+  if (queried && point.lat === 0 && point.lng === 0) return queried
+  return isValid(point) ? point : null
+}
+
+// Share links from Google Maps, Apple Maps and OpenStreetMap. Short links
+// (goo.gl, maps.app.goo.gl) only redirect to these and are not followed.
+function parseMapLink(text: string): LatLng | null {
+  let url: URL
+  try {
+    url = new URL(text)
+  } catch {
+    return null
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") return null
+
+  const href = decodeURIComponent(url.href)
+
+  // Google's place data holds the place itself, where the @ part below is
+  // only the map's centre
+  const placeData = href.match(/!3d([-+]?\d+(?:\.\d+)?)!4d([-+]?\d+(?:\.\d+)?)/)
+  if (placeData) {
+    const point = {
+      lat: parseFloat(placeData[1]),
+      lng: parseFloat(placeData[2])
+    }
+    if (isValid(point)) return point
+  }
+
+  // OpenStreetMap's marker
+  const markerLat = parseFloat(url.searchParams.get("mlat") || "")
+  const markerLng = parseFloat(url.searchParams.get("mlon") || "")
+  if (isValid({ lat: markerLat, lng: markerLng })) {
+    return { lat: markerLat, lng: markerLng }
+  }
+
+  for (const param of POSITION_PARAMS) {
+    const value = url.searchParams.get(param)
+    const point = value ? parseCoordinates(value) : null
+    if (point) return point
+  }
+
+  // Google's map centre, /@40.7128,-74.0060,15z
+  const centre = url.pathname.match(
+    /@([-+]?\d+(?:\.\d+)?),([-+]?\d+(?:\.\d+)?)/
+  )
+  if (centre) {
+    const point = { lat: parseFloat(centre[1]), lng: parseFloat(centre[2]) }
+    if (isValid(point)) return point
+  }
+
+  // OpenStreetMap's map view, #map=15/40.7128/-74.0060
+  const view = url.hash.match(
+    /map=\d+(?:\.\d+)?\/([-+]?\d+(?:\.\d+)?)\/([-+]?\d+(?:\.\d+)?)/
+  )
+  if (view) {
+    const point = { lat: parseFloat(view[1]), lng: parseFloat(view[2]) }
+    if (isValid(point)) return point
+  }
+
+  return null
+}
+
+// The position a location input names directly, or null when it is an
+// address to geocode
+export function parseLocationInput(input: string): LatLng | null {
+  const text = input.trim()
+  if (!text) return null
+
+  return parseGeoUri(text) || parseMapLink(text) || parseCoordinates(text)
+}
+
+// Coordinates as text that parseLocationInput reads back, e.g.
+// "40.71280, -74.00600"
+export function formatCoordinates({ lat, lng }: LatLng): string {
+  return `${lat.toFixed(5)}, ${lng.toFixed(5)}`
+}
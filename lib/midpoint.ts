@@ -0,0 +1,315 @@
+/*
+<ai_context>
+Contains the midpoint solvers used to place a meeting point between two or more origins.
+</ai_context>
+*/
+
+import { MeetingObjective, MidpointMetric } from "@/types"
+import {
+  LatLng,
+  distanceBetween,
+  getSegmentDistances,
+  interpolateAlongLine
+} from "@/lib/geo"
+
+export interface RouteLike {
+  geometry: { coordinates: [number, number][] }
+  duration: number
+  legs?: { annotation?: { duration?: number[] } }[]
+}
+
+export interface RouteSplit {
+  point: LatLng
+  // Seconds from the start and from the end of the route to the point
+  durations: [number, number]
+}
+
+// Per-segment travel times from the route's duration annotations, or null
+// when the router did not return them (e.g. estimated straight-line routes)
+function getSegmentDurations(route: RouteLike): number[] | null {
+  const durations = (route.legs || []).flatMap(
+    leg => leg.annotation?.duration || []
+  )
+
+  if (durations.length !== route.geometry.coordinates.length - 1) {
+    return null
+  }
+
+  return durations
+}
+
+// Splits a route into two parts, either by distance or by travel time. The
+// share is the part of the route (0-1) that falls to the start; 0.5 splits it
+// so the trip from each end to the split point is equally long.
+export function splitRoute(
+  route: RouteLike | null,
+  by: MidpointMetric,
+  share: number = 0.5
+): RouteSplit | null {
+  const coordinates = route?.geometry?.coordinates
+  if (!route || !coordinates || coordinates.length < 2) return null
+
+  const distances = getSegmentDistances(coordinates)
+  const totalDistance = distances.reduce((sum, d) => sum + d, 0)
+  const annotated = getSegmentDurations(route)
+
+  if (by === "time" && !annotated) return null
+
+  // Without annotations, assume an even pace along the route
+  const durations =
+    annotated ||
+    distances.map(d =>
+      totalDistance > 0 ? (route.duration * d) / totalDistance : 0
+    )
+  const totalDuration = durations.reduce((sum, d) => sum + d, 0)
+
+  const weights = by === "time" ? durations : distances
+  const target = (by === "time" ? totalDuration : totalDistance) * share
+
+  // Walk the route to the target, tracking how long it takes to get there
+  let covered = 0
+  let elapsed = 0
+
+  for (let i = 0; i < weights.length; i++) {
+    if (weights[i] > 0 && covered + weights[i] >= target) {
+      const ratio = (target - covered) / weights[i]
+      const [lon1, lat1] = coordinates[i]
+      const [lon2, lat2] = coordinates[i + 1]
+      const fromStart = elapsed + ratio * durations[i]
+
+      return {
+        point: {
+          lat: lat1 + ratio * (lat2 - lat1),
+          lng: lon1 + ratio * (lon2 - lon1)
+        },
+        durations: [fromStart, totalDuration - fromStart]
+      }
+    }
+
+    covered += weights[i]
+    elapsed += durations[i]
+  }
+
+  const last = coordinates[coordinates.length - 1]
+  return {
+    point: { lat: last[1], lng: last[0] },
+    durations: [totalDuration, 0]
+  }
+}
+
+// Point halfway along a route (or the given share of the way), measured by
+// distance or by travel time
+export function getRouteMidpoint(
+  route: RouteLike | null,
+  by: MidpointMetric = "distance",
+  share: number = 0.5
+): LatLng | null {
+  return splitRoute(route, by, share)?.point ?? null
+}
+
+// Finds the point that minimizes the longest straight-line distance to any
+// origin (the centre of the smallest enclosing circle), so nobody in a group
+// is left with a much longer trip than everyone else. Uses the Badoiu-Clarkson
+// iteration: repeatedly step towards the farthest origin with a shrinking step.
+export function getMinimaxCenter(
+  points: LatLng[],
+  iterations: number = 500
+): LatLng | null {
+  if (points.length === 0) return null
+  if (points.length === 1) return { ...points[0] }
+
+  let center: LatLng = {
+    lat: points.reduce((sum, p) => sum + p.lat, 0) / points.length,
+    lng: points.reduce((sum, p) => sum + p.lng, 0) / points.length
+  }
+
+  for (let i = 1; i <= iterations; i++) {
+    let farthest = points[0]
+    let farthestDistance = -1
+
+    for (const point of points) {
+      const distance = distanceBetween(center, point)
+      if (distance > farthestDistance) {
+        farthest = point
+        farthestDistance = distance
+      }
+    }
+
+    const step = 1 / (i + 1)
+    center = {
+      lat: center.lat + (farthest.lat - center.lat) * step,
+      lng: center.lng + (farthest.lng - center.lng) * step
+    }
+  }
+
+  return center
+}
+
+export interface LineSample {
+  // Fraction (0-1) of the line's length at which the point lies
+  fraction: number
+  point: LatLng
+}
+
+// Evenly spaced points along a GeoJSON [lon, lat] line, strictly between the
+// two given fractions of its length
+export function sampleAlongLine(
+  coordinates: [number, number][],
+  count: number,
+  from: number = 0,
+  to: number = 1
+): LineSample[] {
+  const samples: LineSample[] = []
+
+  for (let i = 1; i <= count; i++) {
+    const fraction = from + ((to - from) * i) / (count + 1)
+    const point = interpolateAlongLine(coordinates, fraction)
+    if (point) samples.push({ fraction, point })
+  }
+
+  return samples
+}
+
+export interface EqualTimeEstimate {
+  fraction: number
+  // Bracket around the estimate, for sampling it more finely
+  from: number
+  to: number
+}
+
+// Given travel times from the two ends of a line to samples along it, finds
+// where both trips take equally long. Times from the start grow along the
+// line and times from the end shrink, so the crossing lies between the last
+// sample that is closer in time to the start and the first that is not.
+export function findEqualTimeFraction(
+  fractions: number[],
+  fromStart: (number | null)[],
+  fromEnd: (number | null)[],
+  from: number = 0,
+  to: number = 1
+): EqualTimeEstimate | null {
+  const samples = fractions
+    .map((fraction, i) => ({
+      fraction,
+      difference:
+        fromStart[i] != null && fromEnd[i] != null
+          ? fromStart[i]! - fromEnd[i]!
+          : null
+    }))
+    .filter(
+      (sample): sample is { fraction: number; difference: number } =>
+        sample.difference !== null
+    )
+
+  if (samples.length === 0) return null
+
+  const index = samples.findIndex(sample => sample.difference >= 0)
+
+  // The crossing lies before the first sample or after the last one
+  if (index === 0) {
+    return { fraction: samples[0].fraction, from, to: samples[0].fraction }
+  }
+  if (index === -1) {
+    const last = samples[samples.length - 1]
+    return { fraction: last.fraction, from: last.fraction, to }
+  }
+
+  const before = samples[index - 1]
+  const after = samples[index]
+  const ratio = -before.difference / (after.difference - before.difference || 1)
+
+  return {
+    fraction: before.fraction + ratio * (after.fraction - before.fraction),
+    from: before.fraction,
+    to: after.fraction
+  }
+}
+
+// A square grid of points centred on a point, spaced evenly over
+// halfWidth meters in every direction
+export function sampleGrid(
+  center: LatLng,
+  halfWidth: number,
+  steps: number
+): LatLng[] {
+  const metersPerDegree = 111320
+  const latSpan = halfWidth / metersPerDegree
+  const lngSpan =
+    halfWidth / (metersPerDegree * Math.cos((center.lat * Math.PI) / 180))
+  const points: LatLng[] = []
+
+  for (let row = 0; row < steps; row++) {
+    for (let col = 0; col < steps; col++) {
+      const y = steps > 1 ? (2 * row) / (steps - 1) - 1 : 0
+      const x = steps > 1 ? (2 * col) / (steps - 1) - 1 : 0
+      points.push({
+        lat: center.lat + y * latSpan,
+        lng: center.lng + x * lngSpan
+      })
+    }
+  }
+
+  return points
+}
+
+// Divides each origin's travel times by its weight, indexed as
+// [origin][candidate]. Times that match the weights' ratio come out equal, so
+// the objectives below favour whoever should travel less.
+export function applyWeights(
+  times: (number | null)[][],
+  weights: number[]
+): (number | null)[][] {
+  return times.map((row, i) =>
+    row.map(time => (time == null ? null : time / (weights[i] || 1)))
+  )
+}
+
+// Weight of the secondary measure used to break near-ties between candidates
+const TIE_BREAK_WEIGHT = 0.01
+
+// How well a set of trip times (seconds) meets an objective; lower is better.
+// Equal times are judged by the gap between the longest and shortest trip,
+// preferring shorter trips among equally fair ones. The other objectives
+// prefer the fairer of two otherwise equal candidates.
+export function scoreTrips(
+  trips: number[],
+  objective: MeetingObjective
+): number {
+  const longest = Math.max(...trips)
+  const spread = longest - Math.min(...trips)
+
+  switch (objective) {
+    case "totalTime":
+      return (
+        trips.reduce((sum, trip) => sum + trip, 0) + TIE_BREAK_WEIGHT * spread
+      )
+    case "longestTrip":
+      return longest + TIE_BREAK_WEIGHT * spread
+    default:
+      return spread + TIE_BREAK_WEIGHT * longest
+  }
+}
+
+// Index of the candidate that best meets the objective, given travel times
+// indexed as [origin][candidate]. Candidates someone cannot reach are skipped.
+export function pickBestCandidate(
+  times: (number | null)[][],
+  objective: MeetingObjective
+): number {
+  let best = -1
+  let bestScore = Infinity
+  const candidateCount = times[0]?.length ?? 0
+
+  for (let c = 0; c < candidateCount; c++) {
+    const trips = times.map(row => row[c])
+    if (trips.some(trip => trip == null)) continue
+
+    const score = scoreTrips(trips as number[], objective)
+    if (score < bestScore) {
+      best = c
+      bestScore = score
+    }
+  }
+
+  return best
+}
@@ -0,0 +1,19 @@
+/*
+<ai_context>
+Contains the objectives a search can use to place the meeting point.
+</ai_context>
+*/
+
+import { MeetingObjective } from "@/types"
+
+export const MEETING_OBJECTIVES: MeetingObjective[] = [
+  "equalTime",
+  "totalTime",
+  "longestTrip"
+]
+
+export const DEFAULT_MEETING_OBJECTIVE: MeetingObjective = "equalTime"
+
+export function isMeetingObjective(value: unknown): value is MeetingObjective {
+  return MEETING_OBJECTIVES.includes(value as MeetingObjective)
+}
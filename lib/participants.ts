@@ -0,0 +1,36 @@
+/*
+<ai_context>
+Contains constants and helpers for the people (origins) taking part in a search.
+</ai_context>
+*/
+
+export const MIN_PARTICIPANTS = 2
+export const MAX_PARTICIPANTS = 6
+
+// Letter used to label an origin on the form, map and POI cards (A, B, C, ...)
+export function getOriginLabel(index: number): string {
+  return String.fromCharCode(65 + index)
+}
+
+// A person's weight sets their share of the travel: someone weighted 70
+// travels more than twice as long as someone weighted 30
+export const MIN_WEIGHT = 10
+export const MAX_WEIGHT = 90
+export const DEFAULT_WEIGHT = 50
+
+// Each origin's weight, scaled so the weights average 1. Origins without a
+// weight get the default.
+export function getOriginWeights(origins: { weight?: number }[]): number[] {
+  const weights = origins.map(origin =>
+    Math.min(MAX_WEIGHT, Math.max(MIN_WEIGHT, origin.weight ?? DEFAULT_WEIGHT))
+  )
+  const mean = weights.reduce((sum, w) => sum + w, 0) / (weights.length || 1)
+
+  return weights.map(weight => weight / mean)
+}
+
+// Fraction (0-1) of the combined travel time each person takes on
+export function getTravelShares(weights: number[]): number[] {
+  const total = weights.reduce((sum, w) => sum + w, 0)
+  return weights.map(weight => (total > 0 ? weight / total : 0))
+}
@@ -0,0 +1,94 @@
+/*
+<ai_context>
+Contains the POI category taxonomy, which maps each of the app's venue categories to the OpenStreetMap tags that mark it.
+</ai_context>
+*/
+
+import { OsmTag, OsmTagKey, PoiType } from "@/types"
+
+// OSM spreads venues over several keys: parks are leisure=park, museums and
+// hotels are tourism=*, coffee shops are often shop=coffee. "other" has no
+// tags of its own; it is what a venue outside every category falls into.
+export const POI_CATEGORY_TAGS: Record<PoiType, OsmTag[]> = {
+  restaurant: [
+    { key: "amenity", value: "restaurant" },
+    { key: "amenity", value: "fast_food" },
+    { key: "amenity", value: "food_court" }
+  ],
+  cafe: [
+    { key: "amenity", value: "cafe" },
+    { key: "amenity", value: "ice_cream" },
+    { key: "shop", value: "coffee" }
+  ],
+  park: [
+    { key: "leisure", value: "park" },
+    { key: "leisure", value: "garden" }
+  ],
+  bar: [
+    { key: "amenity", value: "bar" },
+    { key: "amenity", value: "pub" },
+    { key: "amenity", value: "biergarten" }
+  ],
+  library: [{ key: "amenity", value: "library" }],
+  cinema: [{ key: "amenity", value: "cinema" }],
+  theatre: [
+    { key: "amenity", value: "theatre" },
+    { key: "amenity", value: "arts_centre" }
+  ],
+  museum: [
+    { key: "tourism", value: "museum" },
+    { key: "tourism", value: "gallery" }
+  ],
+  hotel: [
+    { key: "tourism", value: "hotel" },
+    { key: "tourism", value: "hostel" },
+    { key: "tourism", value: "guest_house" },
+    { key: "tourism", value: "motel" }
+  ],
+  other: []
+}
+
+// Categories a POI search looks for when none are given
+export const DEFAULT_POI_TYPES: PoiType[] = [
+  "restaurant",
+  "cafe",
+  "bar",
+  "park",
+  "library",
+  "cinema",
+  "theatre",
+  "museum",
+  "hotel"
+]
+
+// Overpass tag filters matching any venue in the given categories, one per
+// OSM key, e.g. ["amenity"~"^(restaurant|cafe)$"]
+export function getOsmTagFilters(types: PoiType[]): string[] {
+  const valuesByKey = new Map<OsmTagKey, Set<string>>()
+
+  for (const { key, value } of types.flatMap(type => POI_CATEGORY_TAGS[type])) {
+    valuesByKey.set(key, (valuesByKey.get(key) || new Set()).add(value))
+  }
+
+  return Array.from(
+    valuesByKey,
+    ([key, values]) => `["${key}"~"^(${Array.from(values).join("|")})$"]`
+  )
+}
+
+// The category an OSM feature's tags put it in, or "other" when none match
+export function getPoiType(tags: Record<string, string | undefined>): PoiType {
+  const type = (Object.keys(POI_CATEGORY_TAGS) as PoiType[]).find(category =>
+    POI_CATEGORY_TAGS[category].some(({ key, value }) => tags[key] === value)
+  )
+
+  return type || "other"
+}
+
+// The tags of a category as LocationIQ's Nearby API takes them,
+// e.g. "leisure:park,leisure:garden"
+export function getLocationIqTags(type: PoiType): string {
+  return POI_CATEGORY_TAGS[type]
+    .map(({ key, value }) => `${key}:${value}`)
+    .join(",")
+}
@@ -0,0 +1,76 @@
+/*
+<ai_context>
+Contains the radius steps and result limits for searching points of interest around a meeting point.
+</ai_context>
+*/
+
+import { PoiResponse } from "@/types/poi-types"
+import { LatLng, distanceBetween } from "@/lib/geo"
+
+// Radius of the first POI search around the meeting point, in meters
+export const POI_SEARCH_RADIUS = 1500
+
+// The search widens until it finds this many named venues, or reaches the
+// largest radius. Beyond the most results only the nearest are kept.
+export const MIN_POI_RESULTS = 8
+export const MAX_POI_RESULTS = 40
+export const MAX_POI_RADIUS = 12000
+
+// The search circle never shrinks below this radius, in meters
+const MIN_POI_RADIUS = 300
+
+// The next radius to try when a search finds too few venues, or null once
+// the largest radius has been searched
+export function getNextPoiRadius(radius: number): number | null {
+  if (radius >= MAX_POI_RADIUS) return null
+  return Math.min(MAX_POI_RADIUS, radius * 2)
+}
+
+// The most venues a search keeps, nearest the centre first, with how far
+// each one is
+function getNearestPois(center: LatLng, pois: PoiResponse[]) {
+  return pois
+    .map(poi => ({
+      poi,
+      distance: distanceBetween(center, {
+        lat: parseFloat(poi.lat),
+        lng: parseFloat(poi.lon)
+      })
+    }))
+    .filter(({ distance }) => Number.isFinite(distance))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, MAX_POI_RESULTS)
+}
+
+// Keeps the venues nearest the centre when a search finds too many, and
+// shrinks the radius to the circle that holds them, rounded up to 100 m
+export function limitPoiResults(
+  center: LatLng,
+  pois: PoiResponse[],
+  radius: number
+): { pois: PoiResponse[]; radius: number } {
+  if (pois.length <= MAX_POI_RESULTS) return { pois, radius }
+
+  const nearest = getNearestPois(center, pois)
+  const farthest = nearest[nearest.length - 1]?.distance ?? radius
+
+  return {
+    pois: nearest.map(({ poi }) => poi),
+    radius: Math.min(
+      radius,
+      Math.max(MIN_POI_RADIUS, Math.ceil(farthest / 100) * 100)
+    )
+  }
+}
+
+// Keeps the venues nearest the middle of a corridor (by the meeting point,
+// unless it is near the end of the route) when a search along it finds too
+// many. The corridor keeps its width.
+export function limitCorridorPoiResults(
+  middle: LatLng,
+  pois: PoiResponse[]
+): PoiResponse[] {
+  if (pois.length <= MAX_POI_RESULTS) return pois
+
+  return getNearestPois(middle, pois).map(({ poi }) => poi)
+}
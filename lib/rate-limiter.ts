@@ -0,0 +1,175 @@
+/*
+<ai_context>
+Contains token-bucket rate limiters, kept separately for each upstream host.
+</ai_context>
+*/
+
+export interface RateLimit {
+  // Requests per second allowed over time
+  ratePerSecond: number
+  // Requests that may be sent at once after a quiet spell
+  burst: number
+}
+
+// Hosts with published usage policies. Anything else gets DEFAULT_RATE_LIMIT
+// unless RATE_LIMITS says otherwise. LocationIQ allows 2 requests per second
+// per key, and geocoding shares the key with autocomplete below, so each
+// gets half of it.
+export const DEFAULT_HOST_RATE_LIMITS: Record<string, RateLimit> = {
+  "nominatim.openstreetmap.org": { ratePerSecond: 1, burst: 1 },
+  "photon.komoot.io": { ratePerSecond: 1, burst: 1 },
+  "us1.locationiq.com": { ratePerSecond: 1, burst: 1 },
+  "router.project-osrm.org": { ratePerSecond: 1, burst: 1 },
+  "routing.openstreetmap.de": { ratePerSecond: 1, burst: 1 },
+  "overpass-api.de": { ratePerSecond: 1, burst: 2 }
+}
+
+export const DEFAULT_RATE_LIMIT: RateLimit = { ratePerSecond: 1, burst: 1 }
+
+// Limits for suggestions while typing, kept apart from the limits above.
+// The two LocationIQ limits add up to the key's allowance.
+export const DEFAULT_AUTOCOMPLETE_RATE_LIMITS: Record<string, RateLimit> = {
+  "api.locationiq.com": { ratePerSecond: 1, burst: 1 },
+  "photon.komoot.io": { ratePerSecond: 1, burst: 1 }
+}
+
+// The reason a signal was aborted, as an error to reject with
+export function getAbortError(signal: AbortSignal): Error {
+  return signal.reason instanceof Error
+    ? signal.reason
+    : new DOMException("The operation was aborted", "AbortError")
+}
+
+export interface TokenBucket {
+  // Resolves once a request may be sent. Waits are served first come, first
+  // served; aborting the signal drops the wait from the queue and rejects.
+  take(signal?: AbortSignal): Promise<void>
+}
+
+export function createTokenBucket({
+  ratePerSecond,
+  burst
+}: RateLimit): TokenBucket {
+  const capacity = Math.max(1, burst)
+  let tokens = capacity
+  let refilledAt = Date.now()
+  let timer: ReturnType<typeof setTimeout> | null = null
+  const queue: { resolve: () => void }[] = []
+
+  const refill = () => {
+    const now = Date.now()
+    tokens = Math.min(
+      capacity,
+      tokens + ((now - refilledAt) / 1000) * ratePerSecond
+    )
+    refilledAt = now
+  }
+
+  const drain = () => {
+    timer = null
+    refill()
+
+    while (queue.length > 0 && tokens >= 1) {
+      tokens--
+      queue.shift()!.resolve()
+    }
+
+    if (queue.length > 0) {
+      timer = setTimeout(drain, ((1 - tokens) / ratePerSecond) * 1000)
+    }
+  }
+
+  return {
+    take(signal) {
+      if (signal?.aborted) return Promise.reject(getAbortError(signal))
+
+      refill()
+      if (queue.length === 0 && tokens >= 1) {
+        tokens--
+        return Promise.resolve()
+      }
+
+      return new Promise<void>((resolve, reject) => {
+        const onAbort = () => {
+          const index = queue.indexOf(waiter)
+          if (index !== -1) queue.splice(index, 1)
+          reject(getAbortError(signal!))
+        }
+        const waiter = {
+          resolve: () => {
+            signal?.removeEventListener("abort", onAbort)
+            resolve()
+          }
+        }
+
+        signal?.addEventListener("abort", onAbort, { once: true })
+        queue.push(waiter)
+        if (!timer) drain()
+      })
+    }
+  }
+}
+
+// Reads per-host limits from a comma-separated list of host=rate/burst pairs,
+// e.g. "osrm.example.com=20/40,nominatim.example.com=5/5". Malformed entries
+// are skipped with a warning.
+export function parseRateLimits(value?: string): Record<string, RateLimit> {
+  const limits: Record<string, RateLimit> = {}
+
+  for (const entry of (value || "").split(",")) {
+    if (!entry.trim()) continue
+
+    const match = entry.trim().match(/^([^=\s]+)=(\d*\.?\d+)(?:\/(\d+))?$/)
+    if (!match || parseFloat(match[2]) <= 0) {
+      console.warn(`Ignoring malformed rate limit "${entry.trim()}".`)
+      continue
+    }
+
+    const ratePerSecond = parseFloat(match[2])
+    limits[match[1].toLowerCase()] = {
+      ratePerSecond,
+      burst: match[3]
+        ? parseInt(match[3])
+        : Math.max(1, Math.floor(ratePerSecond))
+    }
+  }
+
+  return limits
+}
+
+interface HostRateLimiterOptions {
+  limits?: Record<string, RateLimit>
+  defaultLimit?: RateLimit
+}
+
+export interface HostRateLimiter {
+  // Waits for the URL's host to allow another request
+  acquire(url: string, signal?: AbortSignal): Promise<void>
+}
+
+// One bucket per host, so a slow, strictly limited service never holds up
+// requests to another
+export function createHostRateLimiter({
+  limits = DEFAULT_HOST_RATE_LIMITS,
+  defaultLimit = DEFAULT_RATE_LIMIT
+}: HostRateLimiterOptions = {}): HostRateLimiter {
+  const buckets: Record<string, TokenBucket> = {}
+
+  const getHost = (url: string) => {
+    try {
+      return new URL(url).host.toLowerCase()
+    } catch {
+      return ""
+    }
+  }
+
+  return {
+    acquire(url, signal) {
+      const host = getHost(url)
+      if (!buckets[host]) {
+        buckets[host] = createTokenBucket(limits[host] || defaultLimit)
+      }
+      return buckets[host].take(signal)
+    }
+  }
+}
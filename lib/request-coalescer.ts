@@ -0,0 +1,87 @@
+/*
+<ai_context>
+Contains a helper that shares one upstream request between identical
+concurrent requests.
+</ai_context>
+*/
+
+import { getAbortError } from "@/lib/rate-limiter"
+
+export interface RequestCoalescer {
+  // Runs the request, or joins the identical one already in flight. Each
+  // caller gets its own copy of the response. Aborting a caller's signal only
+  // abandons that caller; the shared request is aborted once every caller
+  // that is still waiting on it has aborted.
+  run(
+    key: string,
+    request: (signal: AbortSignal) => Promise<Response>,
+    signal?: AbortSignal
+  ): Promise<Response>
+}
+
+interface InFlightRequest {
+  response: Promise<Response>
+  controller: AbortController
+  waiting: number
+}
+
+export function createRequestCoalescer(): RequestCoalescer {
+  const inFlight: Record<string, InFlightRequest> = {}
+
+  return {
+    run(key, request, signal) {
+      if (signal?.aborted) return Promise.reject(getAbortError(signal))
+
+      let entry = inFlight[key]
+      if (!entry) {
+        const controller = new AbortController()
+        const response = request(controller.signal).finally(() => {
+          if (inFlight[key] === entry) delete inFlight[key]
+        })
+        // Callers that abandon the request no longer handle its failure
+        response.catch(() => {})
+        entry = { response, controller, waiting: 0 }
+        inFlight[key] = entry
+      }
+
+      const shared = entry
+      shared.waiting++
+
+      return new Promise<Response>((resolve, reject) => {
+        let settled = false
+
+        const onAbort = () => {
+          if (settled) return
+          settled = true
+          reject(getAbortError(signal!))
+
+          if (--shared.waiting === 0) {
+            if (inFlight[key] === shared) delete inFlight[key]
+            shared.controller.abort(getAbortError(signal!))
+          }
+        }
+
+        signal?.addEventListener("abort", onAbort, { once: true })
+
+        // Copies are made as soon as the response arrives, before any caller
+        // reads its body
+        shared.response.then(
+          response => {
+            if (settled) return
+            settled = true
+            shared.waiting--
+            signal?.removeEventListener("abort", onAbort)
+            resolve(response.clone())
+          },
+          error => {
+            if (settled) return
+            settled = true
+            shared.waiting--
+            signal?.removeEventListener("abort", onAbort)
+            reject(error)
+          }
+        )
+      })
+    }
+  }
+}
@@ -0,0 +1,43 @@
+/*
+<ai_context>
+Contains helpers for showing a route between two people and its alternatives.
+</ai_context>
+*/
+
+import { Translator } from "@/lib/i18n"
+
+// The best route plus up to two genuine alternatives
+export const MAX_ROUTES = 3
+
+// Line colours per route, bright when the route is selected
+export const ROUTE_COLORS = [
+  { selected: "#3b82f6", unselected: "#93c5fd" },
+  { selected: "#ef4444", unselected: "#fca5a5" },
+  { selected: "#f59e0b", unselected: "#fcd34d" }
+]
+
+export function getRouteColors(index: number) {
+  return ROUTE_COLORS[index % ROUTE_COLORS.length]
+}
+
+// "Main Route" for the best route, then "Alternate Route" (numbered when
+// there is more than one alternative)
+export function getRouteLabel(
+  index: number,
+  routeCount: number,
+  t: Translator
+): string {
+  if (index === 0) return t("route.main")
+  return routeCount > 2
+    ? t("route.alternateNumbered", { number: index })
+    : t("route.alternate")
+}
+
+// Reads a route index from a query param. Older links used "main" and
+// "alternate" for the first two routes.
+export function parseRouteIndex(value?: string): number {
+  if (value === "alternate") return 1
+
+  const index = parseInt(value || "", 10)
+  return Number.isInteger(index) && index >= 0 && index < MAX_ROUTES ? index : 0
+}
@@ -0,0 +1,124 @@
+/*
+<ai_context>
+Contains the GraphHopper routing provider.
+</ai_context>
+*/
+
+import {
+  Fetcher,
+  ProviderRoute,
+  RoutePoint,
+  RoutingProvider,
+  TravelMode
+} from "@/types"
+import { fetchJson } from "@/lib/fetch-utils"
+import { spreadIntervalDurations } from "./route-utils"
+
+export const DEFAULT_GRAPHHOPPER_BASE_URL = "https://graphhopper.com/api/1"
+
+const GRAPHHOPPER_PROFILES: Record<TravelMode, string> = {
+  driving: "car",
+  cycling: "bike",
+  walking: "foot"
+}
+
+interface GraphHopperProviderOptions {
+  baseUrl?: string
+  // Required by the hosted API; self-hosted servers usually run without one
+  apiKey?: string
+  fetcher: Fetcher
+}
+
+// Converts a GraphHopper path (times in milliseconds) to the OSRM route shape
+function toProviderRoute(path: any): ProviderRoute {
+  const coordinates: [number, number][] = path.points.coordinates.map(
+    ([lng, lat]: number[]) => [lng, lat]
+  )
+  const timeDetails: [number, number, number][] = path.details?.time || []
+
+  return {
+    geometry: { coordinates, type: "LineString" },
+    distance: path.distance,
+    duration: path.time / 1000,
+    legs: [
+      {
+        annotation: {
+          duration: spreadIntervalDurations(
+            coordinates.length - 1,
+            timeDetails.map(([from, to, ms]) => ({
+              from,
+              to,
+              seconds: ms / 1000
+            }))
+          )
+        }
+      }
+    ]
+  }
+}
+
+export function createGraphHopperProvider({
+  baseUrl = DEFAULT_GRAPHHOPPER_BASE_URL,
+  apiKey,
+  fetcher
+}: GraphHopperProviderOptions): RoutingProvider {
+  const withKey = (params: URLSearchParams) => {
+    if (apiKey) params.set("key", apiKey)
+    return params.toString()
+  }
+  const toPoint = (point: RoutePoint) => `${point.lat},${point.lng}`
+
+  return {
+    name: "graphhopper",
+    quality: "routed",
+    maxTableCoordinates: 100,
+    // The GET routing API has no way to avoid road features
+    getAvoidances: () => [],
+
+    async getRoutes({ start, end, travelMode, alternatives, signal }) {
+      const params = new URLSearchParams({
+        profile: GRAPHHOPPER_PROFILES[travelMode],
+        points_encoded: "false",
+        details: "time"
+      })
+      params.append("point", toPoint(start))
+      params.append("point", toPoint(end))
+      if (alternatives) params.set("algorithm", "alternative_route")
+
+      const data = await fetchJson(
+        fetcher,
+        `${baseUrl}/route?${withKey(params)}`,
+        "GraphHopper route",
+        { signal }
+      )
+
+      return (data.paths || []).map(toProviderRoute)
+    },
+
+    async getTable(sources, destinations, travelMode, _avoid, options) {
+      const params = new URLSearchParams({
+        profile: GRAPHHOPPER_PROFILES[travelMode]
+      })
+      sources.forEach(point => params.append("from_point", toPoint(point)))
+      destinations.forEach(point => params.append("to_point", toPoint(point)))
+      params.append("out_array", "times")
+      params.append("out_array", "distances")
+
+      const data = await fetchJson(
+        fetcher,
+        `${baseUrl}/matrix?${withKey(params)}`,
+        "GraphHopper matrix",
+        options
+      )
+
+      if (!Array.isArray(data.times)) {
+        throw new Error("GraphHopper matrix error: no travel times returned")
+      }
+
+      return {
+        durations: data.times,
+        distances: data.distances
+      }
+    }
+  }
+}
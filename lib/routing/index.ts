@@ -0,0 +1,63 @@
+/*
+<ai_context>
+Picks the routing provider from environment configuration.
+</ai_context>
+*/
+
+import { RoutingProvider, RoutingProviderName, ServiceFetchers } from "@/types"
+import { createGraphHopperProvider } from "./graphhopper-provider"
+import { createLocalRoutingProvider } from "./local-provider"
+import { createOsrmProvider } from "./osrm-provider"
+import { createValhallaProvider } from "./valhalla-provider"
+
+const ROUTING_PROVIDER_NAMES: RoutingProviderName[] = [
+  "osrm",
+  "graphhopper",
+  "valhalla",
+  "local"
+]
+
+export function isRoutingProviderName(
+  value: unknown
+): value is RoutingProviderName {
+  return ROUTING_PROVIDER_NAMES.includes(value as RoutingProviderName)
+}
+
+// Reads a base URL from the environment, without any trailing slash
+const envUrl = (key: string) =>
+  process.env[key]?.replace(/\/+$/, "") || undefined
+
+// Creates the provider named by ROUTING_PROVIDER (OSRM by default). Base URLs
+// can point at self-hosted servers; "local" needs no network at all.
+export function getRoutingProvider(fetchers: ServiceFetchers): RoutingProvider {
+  const name = process.env.ROUTING_PROVIDER || "osrm"
+
+  if (!isRoutingProviderName(name)) {
+    console.warn(`Unknown ROUTING_PROVIDER "${name}". Using OSRM.`)
+  }
+
+  switch (isRoutingProviderName(name) ? name : "osrm") {
+    case "graphhopper":
+      return createGraphHopperProvider({
+        baseUrl: envUrl("GRAPHHOPPER_URL"),
+        apiKey: process.env.GRAPHHOPPER_API_KEY || undefined,
+        fetcher: fetchers("graphhopper")
+      })
+    case "valhalla":
+      return createValhallaProvider({
+        baseUrl: envUrl("VALHALLA_URL"),
+        fetcher: fetchers("valhalla")
+      })
+    case "local":
+      return createLocalRoutingProvider()
+    default:
+      return createOsrmProvider({
+        baseUrls: {
+          driving: envUrl("OSRM_DRIVING_URL"),
+          cycling: envUrl("OSRM_CYCLING_URL"),
+          walking: envUrl("OSRM_WALKING_URL")
+        },
+        fetcher: fetchers("osrm")
+      })
+  }
+}
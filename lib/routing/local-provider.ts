@@ -0,0 +1,97 @@
+/*
+<ai_context>
+Contains a deterministic, offline routing provider for development and tests.
+</ai_context>
+*/
+
+import { ProviderRoute, RoutePoint, RoutingProvider } from "@/types"
+import { distanceBetween } from "@/lib/geo"
+import { FALLBACK_SPEEDS } from "@/lib/travel-modes"
+
+// Roads rarely run in straight lines; stretch straight-line distances by a
+// typical detour factor so estimates resemble real routes
+const DETOUR_FACTOR = 1.3
+const SEGMENT_COUNT = 20
+
+// A path from start to end that bows sideways by the given fraction of its
+// length (0 for a straight line), split into even segments
+function buildPath(
+  start: RoutePoint,
+  end: RoutePoint,
+  bow: number
+): [number, number][] {
+  const coordinates: [number, number][] = []
+
+  for (let i = 0; i <= SEGMENT_COUNT; i++) {
+    const t = i / SEGMENT_COUNT
+    const offset = bow * Math.sin(Math.PI * t)
+    coordinates.push([
+      start.lng + t * (end.lng - start.lng) - offset * (end.lat - start.lat),
+      start.lat + t * (end.lat - start.lat) + offset * (end.lng - start.lng)
+    ])
+  }
+
+  return coordinates
+}
+
+export function createLocalRoutingProvider(): RoutingProvider {
+  const buildRoute = (
+    start: RoutePoint,
+    end: RoutePoint,
+    speed: number,
+    bow: number
+  ): ProviderRoute => {
+    const coordinates = buildPath(start, end, bow)
+    const segmentDistances = coordinates
+      .slice(1)
+      .map(
+        ([lng, lat], i) =>
+          distanceBetween(
+            { lat: coordinates[i][1], lng: coordinates[i][0] },
+            { lat, lng }
+          ) * DETOUR_FACTOR
+      )
+    const segmentDurations = segmentDistances.map(distance => distance / speed)
+
+    return {
+      geometry: { coordinates, type: "LineString" },
+      distance: segmentDistances.reduce((sum, d) => sum + d, 0),
+      duration: segmentDurations.reduce((sum, d) => sum + d, 0),
+      legs: [{ annotation: { duration: segmentDurations } }]
+    }
+  }
+
+  return {
+    name: "local",
+    quality: "estimated",
+    maxTableCoordinates: Infinity,
+    // Straight lines cannot avoid anything
+    getAvoidances: () => [],
+
+    async getRoutes({ start, end, travelMode, alternatives }) {
+      const speed = FALLBACK_SPEEDS[travelMode]
+      const routes = [buildRoute(start, end, speed, 0)]
+
+      if (alternatives) {
+        routes.push(buildRoute(start, end, speed, 0.15))
+      }
+
+      return routes
+    },
+
+    async getTable(sources, destinations, travelMode) {
+      const distances = sources.map(source =>
+        destinations.map(
+          destination => distanceBetween(source, destination) * DETOUR_FACTOR
+        )
+      )
+
+      return {
+        durations: distances.map(row =>
+          row.map(distance => distance / FALLBACK_SPEEDS[travelMode])
+        ),
+        distances
+      }
+    }
+  }
+}
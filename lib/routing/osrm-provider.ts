@@ -0,0 +1,103 @@
+/*
+<ai_context>
+Contains the OSRM routing provider.
+</ai_context>
+*/
+
+import {
+  Fetcher,
+  ProviderRoute,
+  RouteAvoidance,
+  RoutePoint,
+  RoutingProvider,
+  TravelMode
+} from "@/types"
+import { ROUTE_AVOIDANCES, getAppliedAvoidances } from "@/lib/avoidances"
+import { fetchJson } from "@/lib/fetch-utils"
+
+// The project-osrm.org demo server only has a car profile, so bike and foot
+// routing default to the FOSSGIS servers
+export const DEFAULT_OSRM_BASE_URLS: Record<TravelMode, string> = {
+  driving: "https://router.project-osrm.org",
+  cycling: "https://routing.openstreetmap.de/routed-bike",
+  walking: "https://routing.openstreetmap.de/routed-foot"
+}
+
+interface OsrmProviderOptions {
+  // One server per travel mode, since each OSRM instance serves one profile
+  baseUrls?: Partial<Record<TravelMode, string>>
+  fetcher: Fetcher
+}
+
+// OSRM exclude classes defined by the stock car profile. The bike and foot
+// profiles define none, so only driving routes can avoid anything. The car
+// profile only lets one class be excluded at a time and rejects a request
+// that combines them.
+const OSRM_EXCLUDE_CLASSES: Record<RouteAvoidance, string> = {
+  tolls: "toll",
+  highways: "motorway",
+  ferries: "ferry"
+}
+
+const toCoordinates = (points: RoutePoint[]) =>
+  points.map(point => `${point.lng},${point.lat}`).join(";")
+
+export function createOsrmProvider({
+  baseUrls,
+  fetcher
+}: OsrmProviderOptions): RoutingProvider {
+  const urlFor = (mode: TravelMode) =>
+    baseUrls?.[mode] || DEFAULT_OSRM_BASE_URLS[mode]
+
+  // Only the first requested avoidance, in canonical order, is honoured; the
+  // rest are reported back as not avoided
+  const getAvoidances = (mode: TravelMode, requested?: RouteAvoidance[]) =>
+    mode === "driving"
+      ? getAppliedAvoidances(requested, ROUTE_AVOIDANCES).slice(0, 1)
+      : []
+
+  const excludeParam = (mode: TravelMode, avoid?: RouteAvoidance[]) => {
+    const [avoidance] = getAvoidances(mode, avoid)
+    return avoidance ? `&exclude=${OSRM_EXCLUDE_CLASSES[avoidance]}` : ""
+  }
+
+  return {
+    name: "osrm",
+    quality: "routed",
+    maxTableCoordinates: 100,
+    getAvoidances,
+
+    async getRoutes({ start, end, travelMode, alternatives, avoid, signal }) {
+      const url = `${urlFor(travelMode)}/route/v1/driving/${toCoordinates([start, end])}?overview=full&geometries=geojson&annotations=duration${alternatives ? "&alternatives=true" : ""}${excludeParam(travelMode, avoid)}`
+
+      const data = await fetchJson(fetcher, url, "OSRM route", { signal })
+      if (data.code !== "Ok" || !Array.isArray(data.routes)) {
+        if (data.code === "NoRoute") return []
+        throw new Error(`OSRM route error: ${data.code}`)
+      }
+
+      return data.routes as ProviderRoute[]
+    },
+
+    async getTable(sources, destinations, travelMode, avoid, options) {
+      const sourceIndexes = sources.map((_, i) => i).join(";")
+      const destinationIndexes = destinations
+        .map((_, i) => sources.length + i)
+        .join(";")
+      const url = `${urlFor(travelMode)}/table/v1/driving/${toCoordinates([...sources, ...destinations])}?sources=${sourceIndexes}&destinations=${destinationIndexes}&annotations=duration,distance${excludeParam(travelMode, avoid)}`
+
+      const data = await fetchJson(fetcher, url, "OSRM table", options)
+      if (data.code !== "Ok" || !Array.isArray(data.durations)) {
+        throw new Error(`OSRM table error: ${data.code}`)
+      }
+
+      // Older OSRM servers ignore the distance annotation
+      return {
+        durations: data.durations,
+        distances:
+          data.distances ||
+          data.durations.map((row: unknown[]) => row.map(() => null))
+      }
+    }
+  }
+}
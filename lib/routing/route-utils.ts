@@ -0,0 +1,62 @@
+/*
+<ai_context>
+Contains helpers shared by the routing provider implementations.
+</ai_context>
+*/
+
+// Decodes an encoded polyline into GeoJSON [lon, lat] pairs. Valhalla uses a
+// precision of 6 decimal places; Google-style polylines use 5.
+export function decodePolyline(
+  encoded: string,
+  precision: number = 6
+): [number, number][] {
+  const factor = Math.pow(10, precision)
+  const coordinates: [number, number][] = []
+  let index = 0
+  let lat = 0
+  let lng = 0
+
+  const readValue = () => {
+    let result = 0
+    let shift = 0
+    let byte: number
+
+    do {
+      byte = encoded.charCodeAt(index++) - 63
+      result |= (byte & 0x1f) << shift
+      shift += 5
+    } while (byte >= 0x20)
+
+    return result & 1 ? ~(result >> 1) : result >> 1
+  }
+
+  while (index < encoded.length) {
+    lat += readValue()
+    lng += readValue()
+    coordinates.push([lng / factor, lat / factor])
+  }
+
+  return coordinates
+}
+
+// Spreads travel times reported for runs of segments (e.g. per maneuver) evenly
+// over the segments they cover, giving one duration per segment
+export function spreadIntervalDurations(
+  segmentCount: number,
+  intervals: { from: number; to: number; seconds: number }[]
+): number[] {
+  const durations = new Array(segmentCount).fill(0)
+
+  for (const { from, to, seconds } of intervals) {
+    const start = Math.max(0, from)
+    const end = Math.min(segmentCount, to)
+    if (end <= start) continue
+
+    const perSegment = seconds / (end - start)
+    for (let i = start; i < end; i++) {
+      durations[i] += perSegment
+    }
+  }
+
+  return durations
+}
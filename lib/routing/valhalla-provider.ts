@@ -0,0 +1,159 @@
+/*
+<ai_context>
+Contains the Valhalla routing provider.
+</ai_context>
+*/
+
+import {
+  Fetcher,
+  ProviderRoute,
+  RouteAvoidance,
+  RoutePoint,
+  RoutingProvider,
+  TravelMode
+} from "@/types"
+import { getAppliedAvoidances } from "@/lib/avoidances"
+import { fetchJson } from "@/lib/fetch-utils"
+import { decodePolyline, spreadIntervalDurations } from "./route-utils"
+
+export const DEFAULT_VALHALLA_BASE_URL = "https://valhalla1.openstreetmap.de"
+
+const VALHALLA_COSTING: Record<TravelMode, string> = {
+  driving: "auto",
+  cycling: "bicycle",
+  walking: "pedestrian"
+}
+
+// Costing options that steer a route off each feature entirely
+const VALHALLA_AVOIDANCE_OPTIONS: Record<RouteAvoidance, string> = {
+  tolls: "use_tolls",
+  highways: "use_highways",
+  ferries: "use_ferry"
+}
+
+// Bicycle and pedestrian costing only model ferries
+const getAvoidances = (mode: TravelMode, requested?: RouteAvoidance[]) =>
+  getAppliedAvoidances(
+    requested,
+    mode === "driving" ? ["tolls", "highways", "ferries"] : ["ferries"]
+  )
+
+const getCosting = (mode: TravelMode, avoid?: RouteAvoidance[]) => {
+  const costing = VALHALLA_COSTING[mode]
+  const applied = getAvoidances(mode, avoid)
+  if (applied.length === 0) return { costing }
+
+  return {
+    costing,
+    costing_options: {
+      [costing]: Object.fromEntries(
+        applied.map(avoidance => [VALHALLA_AVOIDANCE_OPTIONS[avoidance], 0])
+      )
+    }
+  }
+}
+
+interface ValhallaProviderOptions {
+  baseUrl?: string
+  fetcher: Fetcher
+}
+
+const toLocation = (point: RoutePoint) => ({ lat: point.lat, lon: point.lng })
+
+// Converts a Valhalla trip (lengths in kilometers) to the OSRM route shape
+function toProviderRoute(trip: any): ProviderRoute {
+  const coordinates = trip.legs.flatMap((leg: any, i: number) => {
+    const shape = decodePolyline(leg.shape)
+    // Each leg starts where the previous one ended
+    return i === 0 ? shape : shape.slice(1)
+  })
+
+  let offset = 0
+  const intervals = trip.legs.flatMap((leg: any) => {
+    const legIntervals = (leg.maneuvers || []).map((maneuver: any) => ({
+      from: offset + maneuver.begin_shape_index,
+      to: offset + maneuver.end_shape_index,
+      seconds: maneuver.time
+    }))
+    offset += decodePolyline(leg.shape).length - 1
+    return legIntervals
+  })
+
+  return {
+    geometry: { coordinates, type: "LineString" },
+    distance: trip.summary.length * 1000,
+    duration: trip.summary.time,
+    legs: [
+      {
+        annotation: {
+          duration: spreadIntervalDurations(coordinates.length - 1, intervals)
+        }
+      }
+    ]
+  }
+}
+
+export function createValhallaProvider({
+  baseUrl = DEFAULT_VALHALLA_BASE_URL,
+  fetcher
+}: ValhallaProviderOptions): RoutingProvider {
+  const buildUrl = (service: string, request: object) =>
+    `${baseUrl}/${service}?json=${encodeURIComponent(JSON.stringify(request))}`
+
+  return {
+    name: "valhalla",
+    quality: "routed",
+    maxTableCoordinates: 50,
+    getAvoidances,
+
+    async getRoutes({ start, end, travelMode, alternatives, avoid, signal }) {
+      const data = await fetchJson(
+        fetcher,
+        buildUrl("route", {
+          locations: [toLocation(start), toLocation(end)],
+          ...getCosting(travelMode, avoid),
+          alternates: alternatives ? 2 : 0,
+          directions_options: { units: "kilometers" }
+        }),
+        "Valhalla route",
+        { signal }
+      )
+
+      if (!data.trip) return []
+
+      return [
+        toProviderRoute(data.trip),
+        ...(data.alternates || []).map((alternate: any) =>
+          toProviderRoute(alternate.trip)
+        )
+      ]
+    },
+
+    async getTable(sources, destinations, travelMode, avoid, options) {
+      const data = await fetchJson(
+        fetcher,
+        buildUrl("sources_to_targets", {
+          sources: sources.map(toLocation),
+          targets: destinations.map(toLocation),
+          ...getCosting(travelMode, avoid),
+          units: "kilometers"
+        }),
+        "Valhalla matrix",
+        options
+      )
+
+      if (!Array.isArray(data.sources_to_targets)) {
+        throw new Error("Valhalla matrix error: no travel times returned")
+      }
+
+      const rows: any[][] = data.sources_to_targets
+
+      return {
+        durations: rows.map(row => row.map(cell => cell.time ?? null)),
+        distances: rows.map(row =>
+          row.map(cell => (cell.distance != null ? cell.distance * 1000 : null))
+        )
+      }
+    }
+  }
+}
@@ -0,0 +1,158 @@
+/*
+<ai_context>
+Contains helpers that move a calculated midpoint to a nearby place people can actually meet at.
+</ai_context>
+*/
+
+import { PoiType } from "@/types"
+import { LatLng, distanceBetween } from "@/lib/geo"
+import { POI_SEARCH_RADIUS } from "@/lib/poi-search"
+
+// Venue categories that make a place worth meeting at (see
+// lib/poi-categories for the OSM tags each covers)
+export const MEETABLE_VENUE_TYPES: PoiType[] = [
+  "restaurant",
+  "cafe",
+  "bar",
+  "library",
+  "cinema",
+  "theatre",
+  "museum"
+]
+
+// Settlements whose centre makes a good meeting point
+export const MEETABLE_PLACE_TYPES = ["city", "town", "village", "suburb"]
+
+// Venues a POI search should find for a point to count as meetable
+export const MIN_MEETABLE_VENUES = 5
+
+// How far (in meters) venues may be from each other to form a cluster, and
+// how far a settlement's centre may be from a cluster to stand in for it
+const CLUSTER_RADIUS = 400
+const PLACE_CENTRE_RADIUS = 800
+
+// Snapping never moves the midpoint further than this share of the longest
+// straight-line distance to an origin, within these bounds (meters)
+const SNAP_TOLERANCE_SHARE = 0.15
+const MIN_SNAP_TOLERANCE = 500
+const MAX_SNAP_TOLERANCE = 5000
+
+// Nearest meetable places compared by travel time
+export const MAX_SNAP_CANDIDATES = 5
+
+export interface PlaceCentre extends LatLng {
+  name: string
+}
+
+export interface MeetablePlace {
+  point: LatLng
+  // Name of the settlement when the place is a town centre
+  name?: string
+  // Venues within the POI search radius of the point
+  venueCount: number
+}
+
+// Furthest the midpoint may move, scaled to the size of the trip so a short
+// walk is never snapped to the next town
+export function getSnapTolerance(midpoint: LatLng, origins: LatLng[]): number {
+  const longest = Math.max(
+    0,
+    ...origins.map(origin => distanceBetween(midpoint, origin))
+  )
+
+  return Math.min(
+    MAX_SNAP_TOLERANCE,
+    Math.max(MIN_SNAP_TOLERANCE, longest * SNAP_TOLERANCE_SHARE)
+  )
+}
+
+export function countVenuesNear(
+  point: LatLng,
+  venues: LatLng[],
+  radius: number = POI_SEARCH_RADIUS
+): number {
+  return venues.filter(venue => distanceBetween(point, venue) <= radius).length
+}
+
+// Groups venues into dense clusters, densest first. Each cluster is centred
+// on the mean of the venues around its densest venue; those venues are then
+// taken out before looking for the next cluster.
+export function findVenueClusters(
+  venues: LatLng[],
+  minVenues: number = MIN_MEETABLE_VENUES,
+  radius: number = CLUSTER_RADIUS
+): { point: LatLng; venueCount: number }[] {
+  // Indexes of the venues around each venue, itself included
+  const neighbours = venues.map(venue =>
+    venues
+      .map((other, j) => (distanceBetween(venue, other) <= radius ? j : -1))
+      .filter(j => j !== -1)
+  )
+  const taken = new Set<number>()
+  const clusters: { point: LatLng; venueCount: number }[] = []
+
+  while (taken.size < venues.length) {
+    let densest: number[] = []
+
+    neighbours.forEach((indexes, i) => {
+      if (taken.has(i)) return
+      const remaining = indexes.filter(j => !taken.has(j))
+      if (remaining.length > densest.length) densest = remaining
+    })
+
+    if (densest.length < minVenues) break
+
+    densest.forEach(j => taken.add(j))
+    clusters.push({
+      point: {
+        lat:
+          densest.reduce((sum, j) => sum + venues[j].lat, 0) / densest.length,
+        lng: densest.reduce((sum, j) => sum + venues[j].lng, 0) / densest.length
+      },
+      venueCount: densest.length
+    })
+  }
+
+  return clusters
+}
+
+// The nearest places within the tolerance where a POI search around the
+// point would find enough venues. A cluster next to a settlement's centre is
+// moved to the centre, which is easier to find and to name.
+export function findMeetablePlaces(
+  midpoint: LatLng,
+  venues: LatLng[],
+  centres: PlaceCentre[],
+  tolerance: number
+): MeetablePlace[] {
+  const withinTolerance = (point: LatLng) =>
+    distanceBetween(midpoint, point) <= tolerance
+  const places: MeetablePlace[] = []
+
+  for (const cluster of findVenueClusters(venues.filter(withinTolerance))) {
+    const centre = centres
+      .filter(
+        centre => distanceBetween(centre, cluster.point) <= PLACE_CENTRE_RADIUS
+      )
+      .sort(
+        (a, b) =>
+          distanceBetween(a, cluster.point) - distanceBetween(b, cluster.point)
+      )[0]
+    const point = centre ? { lat: centre.lat, lng: centre.lng } : cluster.point
+
+    if (!withinTolerance(point)) continue
+    if (centre && places.some(place => place.name === centre.name)) continue
+
+    const venueCount = countVenuesNear(point, venues)
+    if (venueCount < MIN_MEETABLE_VENUES) continue
+
+    places.push({ point, name: centre?.name, venueCount })
+  }
+
+  return places
+    .sort(
+      (a, b) =>
+        distanceBetween(midpoint, a.point) - distanceBetween(midpoint, b.point)
+    )
+    .slice(0, MAX_SNAP_CANDIDATES)
+}
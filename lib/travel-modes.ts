@@ -0,0 +1,41 @@
+/*
+<ai_context>
+Contains the travel modes a search can use and the values that depend on them.
+</ai_context>
+*/
+
+import { TravelMode } from "@/types"
+
+export const TRAVEL_MODES: TravelMode[] = ["driving", "cycling", "walking"]
+
+export const DEFAULT_TRAVEL_MODE: TravelMode = "driving"
+
+// Average speeds in m/s used when a route has to be estimated from the
+// straight-line distance (50 km/h, 15 km/h and 5 km/h)
+export const FALLBACK_SPEEDS: Record<TravelMode, number> = {
+  driving: 13.89,
+  cycling: 4.17,
+  walking: 1.39
+}
+
+export function isTravelMode(value: unknown): value is TravelMode {
+  return TRAVEL_MODES.includes(value as TravelMode)
+}
+
+// Each origin's own travel mode, or the search's mode when it has none
+export function getOriginTravelModes(
+  origins: { travelMode?: TravelMode }[],
+  fallback: TravelMode = DEFAULT_TRAVEL_MODE
+): TravelMode[] {
+  return origins.map(origin => origin.travelMode ?? fallback)
+}
+
+// The mode with the lowest average speed. Paths that suit the slowest
+// traveller can still be reached by everyone else.
+export function getSlowestTravelMode(modes: TravelMode[]): TravelMode {
+  return modes.reduce(
+    (slowest, mode) =>
+      FALLBACK_SPEEDS[mode] < FALLBACK_SPEEDS[slowest] ? mode : slowest,
+    modes[0] ?? DEFAULT_TRAVEL_MODE
+  )
+}
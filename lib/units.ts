@@ -0,0 +1,86 @@
+/*
+<ai_context>
+Contains the distance unit systems and the formatting shared by every
+distance shown in the app.
+</ai_context>
+*/
+
+import { UnitSystem } from "@/types"
+import { Translator } from "@/lib/i18n"
+
+export const UNIT_SYSTEMS: UnitSystem[] = ["metric", "imperial"]
+
+export const UNIT_SYSTEM_LABELS: Record<UnitSystem, string> = {
+  metric: "km",
+  imperial: "mi"
+}
+
+// Used until the user's preference or locale is known
+export const DEFAULT_UNIT_SYSTEM: UnitSystem = "imperial"
+
+// Where guests' preference is kept in the browser
+export const UNITS_STORAGE_KEY = "units"
+
+export function isUnitSystem(value: unknown): value is UnitSystem {
+  return UNIT_SYSTEMS.includes(value as UnitSystem)
+}
+
+// Regions that give road distances in miles
+const IMPERIAL_REGIONS = ["US", "GB", "LR", "MM"]
+
+// The usual units for a locale such as "en-GB" or "de-DE". A locale without
+// a region gets its likeliest one ("en" is taken as "en-US").
+export function getLocaleUnitSystem(locale: string): UnitSystem {
+  let region: string | undefined
+  try {
+    region = new Intl.Locale(locale).maximize().region
+  } catch {
+    region = undefined
+  }
+
+  return region && IMPERIAL_REGIONS.includes(region) ? "imperial" : "metric"
+}
+
+const METERS_PER_MILE = 1609.344
+const FEET_PER_METER = 3.28084
+
+interface FormatDistanceOptions {
+  // Marks the distance as measured as the crow flies rather than along
+  // roads, whether by design or because the routing service was unavailable
+  straightLine?: boolean
+}
+
+// Rounds to one decimal under 100 and to whole units above
+const roundDistance = (value: number) =>
+  value < 100 ? Math.round(value * 10) / 10 : Math.round(value)
+
+// A distance in the user's units and language: metres or feet when short,
+// otherwise kilometres or miles
+export function formatDistance(
+  meters: number | undefined,
+  units: UnitSystem,
+  t: Translator,
+  { straightLine = false }: FormatDistanceOptions = {}
+): string {
+  if (meters === undefined || isNaN(meters)) return t("common.notAvailable")
+
+  let distance: string
+
+  if (units === "imperial") {
+    const miles = meters / METERS_PER_MILE
+    distance =
+      miles < 0.1
+        ? t("distance.feet", {
+            value: Math.round((meters * FEET_PER_METER) / 10) * 10
+          })
+        : t("distance.miles", { value: roundDistance(miles) })
+  } else {
+    const kilometers = meters / 1000
+    distance =
+      kilometers < 1
+        ? t("distance.meters", { value: Math.round(meters / 10) * 10 })
+        : t("distance.kilometers", { value: roundDistance(kilometers) })
+  }
+
+  return straightLine ? t("distance.straightLine", { distance }) : distance
+}
@@ -0,0 +1,30 @@
+/*
+<ai_context>
+Contains the types for the provider response cache.
+</ai_context>
+*/
+
+import { GeocodingProviderName } from "./geocoding-types"
+import { Fetcher, RoutingProviderName } from "./routing-types"
+
+// Every external service whose responses are cached. The offline providers
+// make no requests, so they have nothing to cache.
+export type CachedServiceName =
+  | Exclude<RoutingProviderName, "local">
+  | Exclude<GeocodingProviderName, "local">
+  | "locationiq-nearby"
+  | "locationiq-autocomplete"
+  | "photon-autocomplete"
+  | "overpass"
+
+// Gives each service its own fetcher, so responses are cached per service
+export type ServiceFetchers = (service: CachedServiceName) => Fetcher
+
+export interface CacheStats {
+  // Answered from this server's memory
+  memoryHits: number
+  // Answered from the shared database table
+  storeHits: number
+  // Fetched from the service
+  misses: number
+}
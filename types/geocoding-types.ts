@@ -0,0 +1,87 @@
+/*
+<ai_context>
+Contains the types for the geocoding provider chain.
+</ai_context>
+*/
+
+import { GeocodingResponse } from "./meet-me-halfway-types"
+import { FetchOptions } from "./routing-types"
+
+export type GeocodingProviderName =
+  | "locationiq"
+  | "nominatim"
+  | "photon"
+  | "local"
+
+export interface LookupOptions extends FetchOptions {
+  // Language to name places in, as a BCP 47 tag (e.g. "fr"). Providers that
+  // don't have it fall back to local names.
+  language?: string
+}
+
+export interface GeocodeOptions extends LookupOptions {
+  // Most matches to return, best first
+  limit?: number
+}
+
+// The named place a point lies in, for labelling it
+export interface PlaceName {
+  // Town, city, village or suburb around the point
+  locality: string
+  // State or region, as a short code (e.g. "NJ") where the provider has one
+  region?: string
+  country?: string
+}
+
+export interface GeocodingProvider {
+  name: GeocodingProviderName
+  // Matches for a free-text query, best first. An empty list means the
+  // provider found nothing; throws when the service itself fails.
+  search(query: string, options?: GeocodeOptions): Promise<GeocodingResponse[]>
+  // The place a point lies in, or null when the provider knows none there.
+  // Throws when the service itself fails.
+  reverse(
+    lat: number,
+    lng: number,
+    options?: LookupOptions
+  ): Promise<PlaceName | null>
+  // The full address at a point, e.g. "12 Nassau Street, Princeton, ...",
+  // or null when the provider has none there. Throws when the service
+  // itself fails.
+  reverseAddress(
+    lat: number,
+    lng: number,
+    options?: LookupOptions
+  ): Promise<string | null>
+  // Suggestions for a partly typed query, best first. Only providers whose
+  // usage policy allows search-as-you-type implement this.
+  autocomplete?(
+    query: string,
+    options?: GeocodeOptions
+  ): Promise<GeocodingResponse[]>
+}
+
+// A geocoded location along with the provider that answered. There is no
+// provider when the input was already a position (see lib/location-input).
+export interface GeocodingResult extends GeocodingResponse {
+  provider?: GeocodingProviderName
+}
+
+// The best matches for a query, best first, and whether the first few are
+// too close to call without asking which was meant
+export interface GeocodingMatch {
+  candidates: GeocodingResult[]
+  ambiguous: boolean
+  // Whether the input was coordinates or a map link rather than an address.
+  // The one candidate is then that position, named after what is there.
+  parsed: boolean
+}
+
+// A reverse-geocoded place with a short label (e.g. "Princeton, NJ") and the
+// provider that answered
+export interface ReverseGeocodingResult extends PlaceName {
+  label: string
+  provider: GeocodingProviderName
+}
+
+export type CircuitState = "closed" | "open" | "half-open"
@@ -0,0 +1,19 @@
+/*
+<ai_context>
+Contains the types for the UI's languages and message catalogs.
+</ai_context>
+*/
+
+export type Locale = "en" | "es" | "fr"
+
+// A message with a form for each plural category of the language, picked by
+// the "count" value. Every language has an "other" form.
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & {
+  other: string
+}
+
+export type Message = string | PluralMessage
+
+// Values for a message's {placeholders}. Numbers are written the way the
+// language writes them.
+export type MessageValues = Record<string, string | number>
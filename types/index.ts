@@ -7,3 +7,8 @@ Exports the types for the app.
 export * from "./server-action-types"
 export * from "./meet-me-halfway-types"
 export * from "./poi-types"
+export * from "./routing-types"
+export * from "./geocoding-types"
+export * from "./cache-types"
+export * from "./units-types"
+export * from "./i18n-types"
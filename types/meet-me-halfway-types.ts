@@ -4,6 +4,9 @@ Contains the types for the Meet-Me-Halfway app.
 </ai_context>
 */
 
+import { GeocodingProviderName } from "./geocoding-types"
+import { RouteTable } from "./routing-types"
+
 export interface Location {
   id: string
   userId: string
@@ -15,6 +18,19 @@ export interface Location {
   updatedAt: Date
 }
 
+export type TravelMode = "driving" | "cycling" | "walking"
+
+// Road features a search can ask its routes to stay off
+export type RouteAvoidance = "tolls" | "highways" | "ferries"
+
+// Whether travel times and distances come from a routing service or are
+// straight-line estimates made when it was unavailable
+export type DataQuality = "routed" | "estimated"
+
+// What the meeting point is chosen to optimise: trips that take equally long,
+// the least travel time for everyone combined, or the shortest longest trip
+export type MeetingObjective = "equalTime" | "totalTime" | "longestTrip"
+
 export interface Search {
   id: string
   userId: string
@@ -26,10 +42,42 @@ export interface Search {
   endLocationLng: string
   midpointLat: string
   midpointLng: string
+  midpointName: string | null
+  travelMode: TravelMode
+  objective: MeetingObjective
+  avoid: RouteAvoidance[]
+  dataQuality: DataQuality
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface Participant {
+  id: string
+  searchId: string
+  position: number
+  address: string
+  latitude: string
+  longitude: string
+  travelMode: TravelMode
+  weight: number
   createdAt: Date
   updatedAt: Date
 }
 
+// A geocoded origin as it moves between the form, results map and POI list
+export interface Origin {
+  address: string
+  lat: string
+  lng: string
+  // How this person travels; falls back to the search's travel mode
+  travelMode?: TravelMode
+  // This person's share of the travel relative to everyone else's (see
+  // lib/participants); everyone travels equally when omitted
+  weight?: number
+  // Which geocoder found the address, when it was just geocoded
+  geocodedBy?: GeocodingProviderName
+}
+
 export interface Poi {
   id: string
   searchId: string
@@ -50,12 +98,29 @@ export type PoiType =
   | "park"
   | "bar"
   | "library"
+  | "cinema"
+  | "theatre"
+  | "museum"
+  | "hotel"
   | "other"
 
+// Area a geocoded place covers, in degrees
+export interface BoundingBox {
+  south: number
+  north: number
+  west: number
+  east: number
+}
+
 export interface GeocodingResponse {
   lat: string
   lon: string
   display_name: string
+  // Kind of place matched (e.g. "city", "house"), where the provider says
+  type?: string
+  // The provider's ranking of the match from 0 to 1, where it gives one
+  importance?: number
+  boundingBox?: BoundingBox
 }
 
 export interface RouteResponse {
@@ -74,6 +139,41 @@ export interface MidpointResponse {
   lon: string
 }
 
+// Travel times from every origin to every destination, and whether any of
+// them had to be estimated
+export interface TravelTimeMatrix extends RouteTable {
+  quality: DataQuality
+}
+
+export type MidpointMetric = "distance" | "time"
+
+// A meeting point and whether the routing data behind it was estimated
+export interface MeetingPointResponse extends MidpointResponse {
+  quality: DataQuality
+}
+
+// A route midpoint placed so both trip times match the travellers' shares,
+// with the point splitting the distance in the same shares kept alongside for
+// comparison
+export interface RouteMidpointResponse extends MeetingPointResponse {
+  metric: MidpointMetric
+  distanceMidpoint: MidpointResponse
+}
+
+// A meeting point moved from the calculated midpoint to a nearby place with
+// venues to meet at. When nothing meetable is close enough, the point is the
+// original midpoint and snapped is false.
+export interface SnappedMidpoint extends MeetingPointResponse {
+  snapped: boolean
+  original: MidpointResponse
+  // Name of the town or neighbourhood snapped to, if it has one
+  placeName?: string
+  // Venues within the POI search radius of the point
+  venueCount: number
+  // Seconds each origin travels beyond their trip to the original midpoint
+  extraTravelTimes: (number | null)[]
+}
+
 export interface PoiResponse {
   name: string
   address: {
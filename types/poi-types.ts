@@ -1,3 +1,12 @@
+// OpenStreetMap keys that mark a kind of venue
+export type OsmTagKey = "amenity" | "leisure" | "tourism" | "shop"
+
+// An OpenStreetMap key/value pair, e.g. leisure=park
+export interface OsmTag {
+  key: OsmTagKey
+  value: string
+}
+
 export interface PoiResponse {
   osm_id?: string
   name: string
@@ -13,3 +22,12 @@ export interface PoiResponse {
     postcode?: string
   }
 }
+
+// Venues found around a point, with the radius (meters) of the circle that
+// was searched to find them. A search along the route has the corridor's
+// line instead, with the radius reaching either side of it.
+export interface PoiSearchResponse {
+  pois: PoiResponse[]
+  radius: number
+  corridor?: { lat: number; lng: number }[]
+}
@@ -0,0 +1,87 @@
+/*
+<ai_context>
+Contains the types for the pluggable routing providers.
+</ai_context>
+*/
+
+import {
+  DataQuality,
+  RouteAvoidance,
+  TravelMode
+} from "./meet-me-halfway-types"
+
+export type RoutingProviderName = "osrm" | "graphhopper" | "valhalla" | "local"
+
+export interface RoutePoint {
+  lat: number
+  lng: number
+}
+
+export interface RouteRequest extends FetchOptions {
+  start: RoutePoint
+  end: RoutePoint
+  travelMode: TravelMode
+  // Also return alternative routes after the best one
+  alternatives?: boolean
+  // Road features to stay off, where the provider supports avoiding them
+  avoid?: RouteAvoidance[]
+}
+
+// Routes use OSRM's shape, which the map and midpoint code already read.
+// Coordinates are GeoJSON [lon, lat]; distances in meters, durations in seconds.
+export interface ProviderRoute {
+  geometry: {
+    coordinates: [number, number][]
+    type: "LineString"
+  }
+  distance: number
+  duration: number
+  legs?: { annotation?: { duration?: number[] } }[]
+}
+
+// A route along with whether it was routed or estimated, and which of the
+// requested avoidances it actually honours
+export interface RouteResult extends ProviderRoute {
+  quality: DataQuality
+  avoided: RouteAvoidance[]
+}
+
+// Travel times in seconds and distances in meters, indexed as
+// [source][destination]. Null where a destination cannot be reached.
+export interface RouteTable {
+  durations: (number | null)[][]
+  distances: (number | null)[][]
+}
+
+export interface FetchOptions {
+  // Abandons the request, including any wait for the rate limiter
+  signal?: AbortSignal
+}
+
+// Fetches a URL; lets providers share the app's rate limiting and caching
+export type Fetcher = (url: string, options?: FetchOptions) => Promise<Response>
+
+export interface RoutingProvider {
+  name: RoutingProviderName
+  // "estimated" for providers that do not route over a real road network
+  quality: DataQuality
+  // Largest number of coordinates a single table request may contain
+  maxTableCoordinates: number
+  // The requested avoidances the provider honours for a travel mode; others
+  // are ignored
+  getAvoidances(
+    travelMode: TravelMode,
+    requested?: RouteAvoidance[]
+  ): RouteAvoidance[]
+  // Best route first, followed by any alternatives. Throws when the routing
+  // service cannot be reached or returns an error.
+  getRoutes(request: RouteRequest): Promise<ProviderRoute[]>
+  // Travel times and distances from every source to every destination
+  getTable(
+    sources: RoutePoint[],
+    destinations: RoutePoint[],
+    travelMode: TravelMode,
+    avoid?: RouteAvoidance[],
+    options?: FetchOptions
+  ): Promise<RouteTable>
+}
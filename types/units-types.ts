@@ -0,0 +1,7 @@
+/*
+<ai_context>
+Contains the types for the distance unit preference.
+</ai_context>
+*/
+
+export type UnitSystem = "metric" | "imperial"